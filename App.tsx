@@ -1,33 +1,35 @@
 import React, { useState, useEffect } from 'react';
-import { ViewState, InterviewRecord, Stage } from './types';
+import { ViewState, InterviewRecord, InterviewTemplate, InterviewType } from './types';
 import { InterviewForm } from './components/InterviewForm';
 import { InterviewList } from './components/InterviewList';
 import { Login } from './components/Login';
+import { RetentionReport } from './components/RetentionReport';
+import { TemplateEditor } from './components/TemplateEditor';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
-import { INTERVIEW_STAGES as STANDARD_STAGES } from './constants';
-import { INTERVIEW_STAGES as DEPTH_STAGES } from './constants_in-depth';
-import { supabase } from './services/supabase';
+import { TemplateProvider, useTemplates } from './contexts/TemplateContext';
+import { authService } from './services/authService';
+import { appConfig } from './services/config';
+import { recordRepository } from './services/recordRepository';
+import { getRecordTemplate } from './services/templateService';
+import { DEFAULT_INTERVIEW_TYPE } from './services/interviewTypes';
+
+// The retention job runs in the database, so it is only offered with Supabase
+const hasRetentionJob = appConfig.recordBackend === 'supabase';
 
 const AppContent: React.FC = () => {
   const { user, loading, signOut } = useAuth();
+  const { getTemplate } = useTemplates();
   const [view, setView] = useState<ViewState>('LIST');
   const [selectedRecord, setSelectedRecord] = useState<InterviewRecord | undefined>(undefined);
-  const [currentStages, setCurrentStages] = useState<Stage[]>(STANDARD_STAGES);
-  const [currentInterviewType, setCurrentInterviewType] = useState<'STANDARD' | 'DEPTH'>('STANDARD');
+  const [currentTemplate, setCurrentTemplate] = useState<InterviewTemplate | null>(null);
+  const [currentInterviewType, setCurrentInterviewType] = useState<InterviewType>(DEFAULT_INTERVIEW_TYPE);
   const [userRole, setUserRole] = useState<string | null>(null);
   const [showLogout, setShowLogout] = useState(false);
 
   useEffect(() => {
     if (user) {
-      const fetchRole = async () => {
-        const { data } = await supabase
-          .from('profiles')
-          .select('role')
-          .eq('id', user.id)
-          .single();
-        if (data) setUserRole(data.role);
-      };
-      fetchRole();
+      authService.getRole(user.id).then(setUserRole);
+      recordRepository.start();
     }
   }, [user]);
 
@@ -44,23 +46,24 @@ const AppContent: React.FC = () => {
     return <Login />;
   }
 
-  const handleNewInterview = (type: 'STANDARD' | 'DEPTH') => {
+  const handleNewInterview = (type: InterviewType) => {
     setSelectedRecord(undefined);
     setCurrentInterviewType(type);
-    setCurrentStages(type === 'STANDARD' ? STANDARD_STAGES : DEPTH_STAGES);
+    // New interviews use the latest version of the template
+    setCurrentTemplate(getTemplate(type));
     setView('FORM');
   };
 
   const handleEditInterview = async (partialRecord: InterviewRecord) => {
-    const type = partialRecord.basicInfo.interviewType || 'STANDARD';
+    const type = partialRecord.basicInfo.interviewType || DEFAULT_INTERVIEW_TYPE;
     setCurrentInterviewType(type);
-    setCurrentStages(type === 'STANDARD' ? STANDARD_STAGES : DEPTH_STAGES);
 
     try {
-      const { getRecordById } = await import('./services/db');
-      const fullRecord = await getRecordById(partialRecord.id);
+      const fullRecord = await recordRepository.getRecordById(partialRecord.id);
 
       if (fullRecord) {
+        // Reopen with the exact template version the interview was run with
+        setCurrentTemplate(await getRecordTemplate(fullRecord));
         setSelectedRecord(fullRecord);
       } else {
         alert('기록을 불러올 수 없습니다.');
@@ -138,6 +141,32 @@ const AppContent: React.FC = () => {
                 {showLogout && (
                   <div className="absolute left-0 mt-2 w-40 bg-white border border-slate-200 rounded-xl shadow-xl overflow-hidden animate-in fade-in zoom-in-95 slide-in-from-top-2 duration-150">
                     <div className="p-1">
+                      {userRole === 'admin' && hasRetentionJob && (
+                        <button
+                          onClick={() => { setShowLogout(false); setView('RETENTION'); }}
+                          className="w-full flex items-center gap-2.5 px-3 py-2.5 text-slate-600 hover:bg-slate-50 text-xs font-bold rounded-lg transition-colors group"
+                        >
+                          <div className="w-7 h-7 bg-slate-100 rounded-md flex items-center justify-center group-hover:bg-slate-200 transition-colors">
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                            </svg>
+                          </div>
+                          보관 정책
+                        </button>
+                      )}
+                      {userRole === 'admin' && (
+                        <button
+                          onClick={() => { setShowLogout(false); setView('TEMPLATES'); }}
+                          className="w-full flex items-center gap-2.5 px-3 py-2.5 text-slate-600 hover:bg-slate-50 text-xs font-bold rounded-lg transition-colors group"
+                        >
+                          <div className="w-7 h-7 bg-slate-100 rounded-md flex items-center justify-center group-hover:bg-slate-200 transition-colors">
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                            </svg>
+                          </div>
+                          템플릿 관리
+                        </button>
+                      )}
                       <button
                         onClick={signOut}
                         className="w-full flex items-center gap-2.5 px-3 py-2.5 text-rose-600 hover:bg-rose-50 text-xs font-bold rounded-lg transition-colors group"
@@ -169,10 +198,18 @@ const AppContent: React.FC = () => {
           <InterviewList onNew={handleNewInterview} onEdit={handleEditInterview} />
         )}
 
-        {view === 'FORM' && (
+        {view === 'RETENTION' && userRole === 'admin' && hasRetentionJob && (
+          <RetentionReport />
+        )}
+
+        {view === 'TEMPLATES' && userRole === 'admin' && (
+          <TemplateEditor />
+        )}
+
+        {view === 'FORM' && currentTemplate && (
           <InterviewForm
             initialData={selectedRecord}
-            stages={currentStages}
+            template={currentTemplate}
             interviewType={currentInterviewType}
             onSave={handleSaveComplete}
             onCancel={handleCancel}
@@ -186,7 +223,9 @@ const AppContent: React.FC = () => {
 const App: React.FC = () => {
   return (
     <AuthProvider>
-      <AppContent />
+      <TemplateProvider>
+        <AppContent />
+      </TemplateProvider>
     </AuthProvider>
   );
 };
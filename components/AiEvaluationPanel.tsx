@@ -0,0 +1,86 @@
+import React from 'react';
+import { AiEvaluation } from '../types';
+import { AI_RECOMMENDATIONS } from '../constants';
+
+interface AiEvaluationPanelProps {
+  // Partial while streaming, or when the stream was cancelled or broke off
+  evaluation: Partial<AiEvaluation>;
+  questionTexts: Map<string, string>;
+  onGoToQuestion: (questionId: string) => void;
+}
+
+const ListBlock: React.FC<{ title: string; items?: string[]; marker: string }> = ({ title, items, marker }) => (
+  <div>
+    <h4 className="text-sm font-bold text-elleo-dark mb-2">{title}</h4>
+    {items?.length ? (
+      <ul className="space-y-1.5">
+        {items.map((item, idx) => (
+          <li key={idx} className="flex items-start gap-2 text-sm">
+            <span className={`mt-0.5 ${marker}`}>•</span>
+            <span className="flex-1">{item}</span>
+          </li>
+        ))}
+      </ul>
+    ) : (
+      <p className="text-xs text-slate-400">{items ? '없음' : '...'}</p>
+    )}
+  </div>
+);
+
+export const AiEvaluationPanel: React.FC<AiEvaluationPanelProps> = ({ evaluation, questionTexts, onGoToQuestion }) => {
+  const recommendation = AI_RECOMMENDATIONS.find(r => r.value === evaluation.recommendation);
+
+  return (
+    <div className="bg-slate-50 rounded-lg p-6 text-sm text-slate-700 border border-slate-200 space-y-6">
+      <div className="flex items-center gap-3">
+        <span className="text-sm font-bold text-elleo-dark">종합 의견</span>
+        {recommendation ? (
+          <span className={`px-3 py-1 rounded-full border text-sm font-bold ${recommendation.className}`}>{recommendation.value}</span>
+        ) : (
+          <span className="text-xs text-slate-400">...</span>
+        )}
+        {evaluation.confidence !== undefined && (
+          <span className="flex items-center gap-2 text-xs text-slate-500">
+            확신도
+            <span className="w-24 h-1.5 bg-slate-200 rounded-full overflow-hidden">
+              <span className="block h-full bg-elleo-purple" style={{ width: `${evaluation.confidence}%` }} />
+            </span>
+            {evaluation.confidence}%
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <ListBlock title="핵심 강점" items={evaluation.strengths} marker="text-green-600" />
+        <ListBlock title="우려 사항" items={evaluation.concerns} marker="text-red-500" />
+      </div>
+
+      <div>
+        <h4 className="text-sm font-bold text-elleo-dark mb-2">조직 적합성</h4>
+        <p className="leading-relaxed">{evaluation.culturalFit ?? <span className="text-xs text-slate-400">...</span>}</p>
+      </div>
+
+      {evaluation.evidence !== undefined && (
+        <div>
+          <h4 className="text-sm font-bold text-elleo-dark mb-2">근거</h4>
+          <div className="space-y-2">
+            {evaluation.evidence.map((item, idx) => (
+              <button
+                key={idx}
+                onClick={() => onGoToQuestion(item.questionId)}
+                disabled={!questionTexts.has(item.questionId)}
+                className="w-full text-left px-3 py-2 bg-white rounded-md border border-slate-200 enabled:hover:border-elleo-purple transition-colors"
+              >
+                <span className="block text-[11px] font-semibold text-slate-400 truncate">
+                  {questionTexts.get(item.questionId) || item.questionId}
+                </span>
+                <span className="block text-sm italic">"{item.quote}"</span>
+              </button>
+            ))}
+            {evaluation.evidence.length === 0 && <p className="text-xs text-slate-400">없음</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
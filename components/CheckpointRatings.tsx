@@ -0,0 +1,47 @@
+import React from 'react';
+import { CheckpointRating, QuestionRatings, RatingScale } from '../types';
+
+interface CheckpointRatingsProps {
+  checkpoints: string[];
+  ratings?: QuestionRatings;
+  scale: RatingScale;
+  onChange: (checkpoint: string, rating: CheckpointRating) => void;
+}
+
+export const CheckpointRatings: React.FC<CheckpointRatingsProps> = ({ checkpoints, ratings = {}, scale, onChange }) => (
+  <div className="space-y-2 mb-3">
+    {checkpoints.map(checkpoint => {
+      const rating = ratings[checkpoint] || {};
+      return (
+        <div key={checkpoint} className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-medium text-slate-600 min-w-[120px]">{checkpoint}</span>
+          <div className="flex gap-1">
+            {Array.from({ length: scale.max }, (_, i) => i + 1).map(score => (
+              <button
+                key={score}
+                type="button"
+                // Clicking the selected score again clears it
+                onClick={() => onChange(checkpoint, { ...rating, score: rating.score === score ? undefined : score })}
+                className={`w-7 h-7 rounded-md text-xs font-bold border transition-colors ${rating.score === score
+                  ? 'bg-elleo-purple text-white border-elleo-purple'
+                  : 'bg-white text-slate-500 border-slate-200 hover:border-elleo-purple/50'}`}
+              >
+                {score}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => onChange(checkpoint, { ...rating, redFlag: !rating.redFlag || undefined })}
+            className={`px-2 h-7 rounded-md text-xs font-bold border transition-colors ${rating.redFlag
+              ? 'bg-red-500 text-white border-red-500'
+              : 'bg-white text-slate-400 border-slate-200 hover:border-red-300 hover:text-red-500'}`}
+            title="우려 사항으로 표시"
+          >
+            🚩 레드 플래그
+          </button>
+        </div>
+      );
+    })}
+  </div>
+);
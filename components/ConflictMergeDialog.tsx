@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { InterviewRecord, RatingScale, RecordConflict, Stage } from '../types';
+import { getAnswerTexts } from '../services/templateService';
+import { formatQuestionRatings } from '../services/ratings';
+import { Button } from './Button';
+
+type MergeChoice = 'mine' | 'theirs' | 'both';
+
+const SUMMARY_KEY = '__aiSummary';
+// Checkpoint ratings of a question get their own row, keyed apart from its note
+const ratingKey = (questionId: string) => `__ratings:${questionId}`;
+
+const CHOICE_LABELS: Record<MergeChoice, string> = {
+  mine: '내 수정',
+  theirs: '상대 수정',
+  both: '둘 다',
+};
+
+const combine = (mine: string, theirs: string) =>
+  [mine.trim(), theirs.trim()].filter(Boolean).join('\n\n');
+
+interface ConflictMergeDialogProps {
+  conflict: RecordConflict;
+  stages: Stage[];
+  ratingScale: RatingScale;
+  onResolve: (merged: InterviewRecord) => void;
+  onCancel: () => void;
+}
+
+export const ConflictMergeDialog: React.FC<ConflictMergeDialogProps> = ({ conflict, stages, ratingScale, onResolve, onCancel }) => {
+  const { mine, theirs } = conflict;
+
+  const questionTexts = getAnswerTexts(stages);
+
+  // Only keys whose values actually differ need a decision
+  const conflictingKeys = Array.from(new Set([...Object.keys(mine.answers), ...Object.keys(theirs.answers)]))
+    .filter(key => (mine.answers[key] || '') !== (theirs.answers[key] || ''))
+    .sort();
+  const ratingsOf = (record: InterviewRecord, questionId: string) => JSON.stringify(record.ratings?.[questionId] || {});
+  const conflictingRatingIds = Array.from(new Set([...Object.keys(mine.ratings || {}), ...Object.keys(theirs.ratings || {})]))
+    .filter(questionId => ratingsOf(mine, questionId) !== ratingsOf(theirs, questionId))
+    .sort();
+  const summaryDiffers = (mine.aiSummary || '') !== (theirs.aiSummary || '');
+
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>(() =>
+    Object.fromEntries([
+      ...conflictingKeys,
+      ...conflictingRatingIds.map(ratingKey),
+      ...(summaryDiffers ? [SUMMARY_KEY] : []),
+    ].map(key => [key, 'mine']))
+  );
+
+  const pick = (mineValue: string, theirsValue: string, choice: MergeChoice) =>
+    choice === 'mine' ? mineValue : choice === 'theirs' ? theirsValue : combine(mineValue, theirsValue);
+
+  const handleResolve = () => {
+    const answers = { ...mine.answers };
+    conflictingKeys.forEach(key => {
+      answers[key] = pick(mine.answers[key] || '', theirs.answers[key] || '', choices[key]);
+    });
+
+    const ratings = { ...(mine.ratings || {}) };
+    conflictingRatingIds.forEach(questionId => {
+      if (choices[ratingKey(questionId)] !== 'theirs') return;
+      if (theirs.ratings?.[questionId]) ratings[questionId] = theirs.ratings[questionId];
+      else delete ratings[questionId];
+    });
+
+    onResolve({
+      ...mine,
+      answers,
+      ratings,
+      aiSummary: summaryDiffers
+        ? pick(mine.aiSummary || '', theirs.aiSummary || '', choices[SUMMARY_KEY])
+        : mine.aiSummary,
+      // The summary is the text of the evaluation, so it follows the chosen side
+      aiEvaluation: summaryDiffers && choices[SUMMARY_KEY] === 'theirs' ? theirs.aiEvaluation : mine.aiEvaluation,
+      // The merge builds on the server copy, so it saves against its version
+      version: theirs.version
+    });
+  };
+
+  const renderItem = (key: string, label: string, mineValue: string, theirsValue: string, allowBoth: boolean) => (
+    <div key={key} className="border border-slate-200 rounded-lg p-4 space-y-3">
+      <p className="text-sm font-medium text-elleo-dark">{label}</p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {(['mine', 'theirs'] as const).map(side => (
+          <div
+            key={side}
+            className={`rounded-md p-3 text-sm whitespace-pre-wrap border ${choices[key] === side || choices[key] === 'both'
+              ? 'border-elleo-purple bg-elleo-purple-light/50'
+              : 'border-slate-100 bg-slate-50 text-slate-400'}`}
+          >
+            <span className="block text-[11px] font-bold uppercase tracking-wider text-slate-400 mb-1">{CHOICE_LABELS[side]}</span>
+            {(side === 'mine' ? mineValue : theirsValue) || <span className="italic">(비어 있음)</span>}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        {(['mine', 'theirs', 'both'] as const)
+          .filter(choice => allowBoth || choice !== 'both')
+          .map(choice => (
+            <button
+              key={choice}
+              onClick={() => setChoices(prev => ({ ...prev, [key]: choice }))}
+              className={`px-3 py-1 rounded-md text-xs font-bold border transition-colors ${choices[key] === choice
+                ? 'bg-elleo-purple text-white border-elleo-purple'
+                : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'}`}
+            >
+              {CHOICE_LABELS[choice]}
+            </button>
+          ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-900/40 p-4">
+      <div className="w-full max-w-4xl max-h-[90vh] bg-white rounded-xl shadow-2xl flex flex-col">
+        <div className="px-6 py-4 border-b border-slate-200">
+          <h3 className="text-lg font-bold text-elleo-dark">수정 충돌 병합</h3>
+          <p className="text-sm text-slate-500 mt-1">
+            이 기록을 여는 동안 다른 사용자가 먼저 저장했습니다
+            {theirs.updatedAt && ` (${new Date(theirs.updatedAt).toLocaleString()})`}.
+            질문별로 남길 내용을 선택하세요. 기본 정보는 내 수정 내용이 유지됩니다.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {conflictingKeys.length === 0 && conflictingRatingIds.length === 0 && !summaryDiffers && (
+            <p className="text-sm text-slate-400">답변 내용은 동일합니다. 병합 후 저장하면 최신 버전으로 기록됩니다.</p>
+          )}
+          {conflictingKeys.map(key => renderItem(
+            key,
+            questionTexts.get(key) || (key.startsWith('consent-') ? '최종 동의 확인' : key.startsWith('notice-') ? '고지사항 확인' : key),
+            mine.answers[key] || '',
+            theirs.answers[key] || '',
+            questionTexts.has(key)
+          ))}
+          {conflictingRatingIds.map(questionId => renderItem(
+            ratingKey(questionId),
+            `${questionTexts.get(questionId) || questionId} · 체크포인트 평가`,
+            formatQuestionRatings(mine.ratings?.[questionId], ratingScale),
+            formatQuestionRatings(theirs.ratings?.[questionId], ratingScale),
+            false
+          ))}
+          {summaryDiffers && renderItem(SUMMARY_KEY, 'AI 면접 분석', mine.aiSummary || '', theirs.aiSummary || '', false)}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-slate-200">
+          <Button variant="secondary" onClick={onCancel}>나중에</Button>
+          <Button onClick={handleResolve}>병합하여 저장</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
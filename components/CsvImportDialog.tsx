@@ -0,0 +1,198 @@
+import React, { useMemo, useState } from 'react';
+import { InterviewType } from '../types';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  buildImportRows,
+  createDraftRecord,
+  guessColumnMapping,
+  parseCsv,
+} from '../services/csvImport';
+import { recordRepository } from '../services/recordRepository';
+import { getLocalDate } from '../services/recordQuery';
+import { DEFAULT_INTERVIEW_TYPE } from '../services/interviewTypes';
+import { getTemplatePositions } from '../services/templateService';
+import { useTemplates } from '../contexts/TemplateContext';
+import { Button } from './Button';
+import { Input } from './Input';
+
+interface CsvImportDialogProps {
+  onClose: () => void;
+  onImported: (count: number) => void;
+}
+
+export const CsvImportDialog: React.FC<CsvImportDialogProps> = ({ onClose, onImported }) => {
+  const { templates, getTemplate } = useTemplates();
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [interviewType, setInterviewType] = useState<InterviewType>(DEFAULT_INTERVIEW_TYPE);
+  const [interviewer, setInterviewer] = useState('');
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const template = getTemplate(interviewType);
+  const importRows = useMemo(
+    () => buildImportRows(dataRows, mapping, getTemplatePositions(template)),
+    [dataRows, mapping, template]
+  );
+  const validRows = importRows.filter(row => row.errors.length === 0);
+  const invalidCount = importRows.length - validRows.length;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const rows = parseCsv(await file.text());
+    if (rows.length < 2) {
+      alert('헤더와 한 줄 이상의 데이터가 있는 CSV 파일을 선택해주세요.');
+      return;
+    }
+    setFileName(file.name);
+    setHeaders(rows[0]);
+    setDataRows(rows.slice(1));
+    setMapping(guessColumnMapping(rows[0]));
+  };
+
+  const updateMapping = (field: ImportField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === '' ? undefined : Number(value) }));
+  };
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+    if (invalidCount > 0 && !confirm(`오류가 있는 ${invalidCount}행은 건너뛰고 ${validRows.length}건을 가져오시겠습니까?`)) return;
+
+    const today = getLocalDate();
+    setProgress(0);
+    let failed = 0;
+    try {
+      for (let i = 0; i < validRows.length; i++) {
+        try {
+          await recordRepository.saveRecord(createDraftRecord(validRows[i], { template, interviewer, date: today }));
+        } catch (error) {
+          console.error('Import failed for line', validRows[i].line, error);
+          failed++;
+        }
+        setProgress(i + 1);
+      }
+      if (failed > 0) alert(`${failed}건을 저장하지 못했습니다.`);
+      onImported(validRows.length - failed);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const isImporting = progress !== null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-900/40 p-4">
+      <div className="w-full max-w-5xl max-h-[90vh] bg-white rounded-xl shadow-2xl flex flex-col">
+        <div className="px-6 py-4 border-b border-slate-200">
+          <h3 className="text-lg font-bold text-elleo-dark">지원자 CSV 가져오기</h3>
+          <p className="text-sm text-slate-500 mt-1">채용 사이트에서 내보낸 지원자 목록으로 빈 면접 기록을 한 번에 만듭니다.</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <label className="flex items-center justify-center gap-2 px-4 py-6 border-2 border-dashed border-slate-300 rounded-lg cursor-pointer hover:border-elleo-purple hover:bg-elleo-purple-light/30 transition-colors">
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileChange} disabled={isImporting} />
+            <svg className="w-5 h-5 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+            <span className="text-sm text-slate-600">{fileName || 'CSV 파일 선택'}</span>
+          </label>
+
+          {headers.length > 0 && (
+            <>
+              {/* Column mapping */}
+              <div className="space-y-3">
+                <h4 className="text-sm font-bold text-slate-700">열 매칭</h4>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {IMPORT_FIELDS.map(field => (
+                    <div key={field.key} className="flex flex-col gap-1">
+                      <label className="text-xs font-bold text-slate-500">
+                        {field.label}{field.required && <span className="text-red-500"> *</span>}
+                      </label>
+                      <select
+                        value={mapping[field.key] ?? ''}
+                        onChange={e => updateMapping(field.key, e.target.value)}
+                        className="px-2 py-1.5 bg-white border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-elleo-purple/20"
+                      >
+                        <option value="">(사용 안 함)</option>
+                        {headers.map((header, index) => (
+                          <option key={index} value={index}>{header || `열 ${index + 1}`}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Defaults for every imported record */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="flex flex-col gap-1">
+                  <label className="text-sm font-bold text-slate-700">인터뷰 유형</label>
+                  <div className="flex flex-wrap gap-2">
+                    {templates.map(template => (
+                      <button
+                        key={template.id}
+                        onClick={() => setInterviewType(template.id)}
+                        className={`flex-1 px-3 py-2 rounded-md text-xs font-bold border transition-colors ${interviewType === template.id
+                          ? 'bg-elleo-purple text-white border-elleo-purple'
+                          : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'}`}
+                      >
+                        {template.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <Input label="면접관 (선택)" value={interviewer} onChange={e => setInterviewer(e.target.value)} />
+              </div>
+
+              {/* Preview */}
+              <div className="space-y-2">
+                <h4 className="text-sm font-bold text-slate-700">
+                  미리보기 · 가져올 수 있음 {validRows.length}건
+                  {invalidCount > 0 && <span className="text-red-500"> · 오류 {invalidCount}건</span>}
+                </h4>
+                <div className="border border-slate-200 rounded-lg overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-slate-50 text-slate-500 text-left">
+                      <tr>
+                        <th className="px-3 py-2 font-semibold">행</th>
+                        {IMPORT_FIELDS.map(field => (
+                          <th key={field.key} className="px-3 py-2 font-semibold whitespace-nowrap">{field.label}</th>
+                        ))}
+                        <th className="px-3 py-2 font-semibold">확인</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {importRows.map(row => (
+                        <tr key={row.line} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                          <td className="px-3 py-2 text-slate-400">{row.line}</td>
+                          {IMPORT_FIELDS.map(field => (
+                            <td key={field.key} className="px-3 py-2 text-slate-700 whitespace-nowrap">{row.basicInfo[field.key] || '-'}</td>
+                          ))}
+                          <td className="px-3 py-2 text-xs">
+                            {row.errors.map(message => <p key={message} className="text-red-600">{message}</p>)}
+                            {row.warnings.map(message => <p key={message} className="text-amber-600">{message}</p>)}
+                            {row.errors.length === 0 && row.warnings.length === 0 && <span className="text-emerald-600">OK</span>}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-slate-200">
+          <Button variant="secondary" onClick={onClose} disabled={isImporting}>취소</Button>
+          <Button onClick={handleImport} isLoading={isImporting} disabled={validRows.length === 0}>
+            {isImporting ? `${progress}/${validRows.length}` : `${validRows.length}건 가져오기`}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { InterviewTemplate, InterviewType, RecordQuery } from '../types';
+import { useTemplates } from '../contexts/TemplateContext';
+import { buildExportTable, downloadCsv, downloadXlsx, fetchAllRecords } from '../services/exportService';
+import { getRecordTemplate, getRecordTemplateKey } from '../services/templateService';
+import { DEFAULT_INTERVIEW_TYPE } from '../services/interviewTypes';
+import { Button } from './Button';
+
+type ExportFormat = 'csv' | 'xlsx';
+
+interface ExportMenuProps {
+  // The list's current search, filters and sort
+  query: RecordQuery;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ query }) => {
+  const { templates, getTemplate } = useTemplates();
+  const [isOpen, setIsOpen] = useState(false);
+  const [stageSet, setStageSet] = useState<InterviewType>(query.filters?.interviewType || DEFAULT_INTERVIEW_TYPE);
+  const [includeAiSummary, setIncludeAiSummary] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      // Question columns only make sense for records of the chosen stage set
+      const records = await fetchAllRecords({
+        ...query,
+        filters: { ...query.filters, interviewType: stageSet },
+      });
+      if (records.length === 0) {
+        alert('내보낼 기록이 없습니다.');
+        return;
+      }
+
+      // Latest wording first, then questions only found in the versions older records were run with
+      const pinned = new Map<string, Promise<InterviewTemplate>>();
+      records.forEach(record => {
+        const key = getRecordTemplateKey(record);
+        if (!pinned.has(key)) pinned.set(key, getRecordTemplate(record));
+      });
+      const versions = new Map<string, InterviewTemplate>();
+      await Promise.all(Array.from(pinned, async ([key, template]) => versions.set(key, await template)));
+      const templates = [getTemplate(stageSet), ...Array.from(versions.values()).sort((a, b) => b.version - a.version)];
+
+      const table = buildExportTable(
+        records,
+        templates,
+        record => versions.get(getRecordTemplateKey(record))!,
+        { includeAiSummary }
+      );
+      const fileName = `interviews-${stageSet.toLowerCase()}-${new Date().toISOString().split('T')[0]}.${format}`;
+      if (format === 'csv') {
+        downloadCsv(table, fileName);
+      } else {
+        await downloadXlsx(table, fileName);
+      }
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Export failed', error);
+      alert('내보내기 중 오류가 발생했습니다.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-sm font-medium text-slate-600 hover:border-slate-300"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+        내보내기
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white border border-slate-200 rounded-xl shadow-xl p-4 space-y-4 z-20 animate-fadeIn">
+          <p className="text-xs text-slate-500">현재 검색·필터 조건에 맞는 기록을 내보냅니다.</p>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-bold text-slate-700">질문 세트</label>
+            <div className="flex flex-wrap gap-2">
+              {templates.map(template => (
+                <button
+                  key={template.id}
+                  onClick={() => setStageSet(template.id)}
+                  className={`flex-1 px-3 py-1.5 rounded-md text-xs font-bold border transition-colors ${stageSet === template.id
+                    ? 'bg-elleo-purple text-white border-elleo-purple'
+                    : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'}`}
+                >
+                  {template.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              className="w-4 h-4 accent-elleo-purple"
+              checked={includeAiSummary}
+              onChange={e => setIncludeAiSummary(e.target.checked)}
+            />
+            <span className="text-sm text-slate-700">AI 분석 포함</span>
+          </label>
+
+          <div className="flex gap-2">
+            <Button variant="secondary" className="flex-1 text-sm" isLoading={exporting === 'csv'} disabled={!!exporting} onClick={() => handleExport('csv')}>
+              CSV
+            </Button>
+            <Button className="flex-1 text-sm" isLoading={exporting === 'xlsx'} disabled={!!exporting} onClick={() => handleExport('xlsx')}>
+              Excel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
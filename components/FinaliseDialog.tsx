@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { Stage } from '../types';
+import { MissingItem } from '../services/completion';
+import { Button } from './Button';
+
+interface FinaliseDialogProps {
+  missing: MissingItem[];
+  stages: Stage[];
+  onGoTo: (item: MissingItem) => void;
+  onOverride: (reason: string) => void;
+  onCancel: () => void;
+}
+
+// Shown when 작성 완료 is pressed with required items still open
+export const FinaliseDialog: React.FC<FinaliseDialogProps> = ({ missing, stages, onGoTo, onOverride, onCancel }) => {
+  const [reason, setReason] = useState('');
+  const stageTitles = new Map(stages.map(stage => [stage.id, stage.title]));
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-900/40 p-4">
+      <div className="w-full max-w-2xl max-h-[90vh] bg-white rounded-xl shadow-2xl flex flex-col">
+        <div className="px-6 py-4 border-b border-slate-200">
+          <h3 className="text-lg font-bold text-elleo-dark">필수 항목 {missing.length}개가 비어 있습니다</h3>
+          <p className="text-sm text-slate-500 mt-1">
+            항목을 눌러 작성하거나, 비워둔 채 완료해야 한다면 사유를 남겨주세요. 사유는 기록에 함께 저장됩니다.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-2">
+          {missing.map(item => (
+            <button
+              key={item.questionId || `consent-${item.sectionId}`}
+              onClick={() => onGoTo(item)}
+              className="w-full text-left px-3 py-2 rounded-lg border border-slate-200 hover:border-elleo-purple hover:bg-slate-50 transition-colors"
+            >
+              <span className="block text-xs font-bold text-elleo-purple">{stageTitles.get(item.stageId)}</span>
+              <span className="block text-sm text-slate-700 line-clamp-2">{item.label}</span>
+            </button>
+          ))}
+
+          <div className="pt-4">
+            <label className="text-sm font-bold text-slate-700">미작성 사유</label>
+            <textarea
+              className="mt-1 w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-elleo-purple focus:border-transparent resize-y"
+              rows={3}
+              placeholder="예: 지원자가 면접 도중 일정 문제로 먼저 떠남"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-slate-200">
+          <Button variant="secondary" onClick={onCancel}>돌아가기</Button>
+          <Button onClick={() => onOverride(reason.trim())} disabled={!reason.trim()}>사유를 남기고 완료</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  MIN_SUGGESTION_NOTE_LENGTH,
+  SUGGESTION_DEBOUNCE_MS,
+  SuggestionContext,
+  getSuggestionDelay,
+  suggestFollowUps,
+} from '../services/followUpSuggestions';
+
+interface FollowUpSuggestionPanelProps {
+  // The question whose note was last focused; null until the interviewer starts writing
+  context: SuggestionContext | null;
+  onNoteChange: (questionId: string, note: string) => void;
+  onClose: () => void;
+}
+
+// Suggested questions are added to the note on their own line, marked like follow-ups
+const appendSuggestion = (note: string, suggestion: string) =>
+  `${note.trimEnd()}${note.trim() ? '\n' : ''}↳ ${suggestion}`;
+
+export const FollowUpSuggestionPanel: React.FC<FollowUpSuggestionPanelProps> = ({ context, onNoteChange, onClose }) => {
+  const [status, setStatus] = useState<'idle' | 'waiting' | 'loading' | 'ready' | 'failed'>('idle');
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [error, setError] = useState<string>();
+  // Last suggestions per question and the note they were made for, so revisiting
+  // a question or inserting a suggestion does not trigger another request
+  const cacheRef = useRef(new Map<string, { note: string; suggestions: string[] }>());
+  const contextRef = useRef(context);
+  contextRef.current = context;
+
+  const questionId = context?.question.id;
+  const note = context?.note.trim() || '';
+
+  useEffect(() => {
+    if (!questionId || note.length < MIN_SUGGESTION_NOTE_LENGTH) {
+      setStatus('idle');
+      setSuggestions([]);
+      return;
+    }
+    const cached = cacheRef.current.get(questionId);
+    if (cached?.note === note) {
+      setStatus('ready');
+      setSuggestions(cached.suggestions);
+      return;
+    }
+
+    // Earlier suggestions stay visible until the new ones arrive
+    if (cached?.note && cached.suggestions.length) setSuggestions(cached.suggestions);
+    else setSuggestions([]);
+    setStatus('waiting');
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setStatus('loading');
+      try {
+        const result = await suggestFollowUps(contextRef.current!, controller.signal);
+        cacheRef.current.set(questionId, { note, suggestions: result });
+        setSuggestions(result);
+        setStatus('ready');
+      } catch (e) {
+        if (controller.signal.aborted) return;
+        setError(e instanceof Error && e.message ? e.message : '꼬리 질문을 제안하지 못했습니다.');
+        setStatus('failed');
+      }
+    }, Math.max(SUGGESTION_DEBOUNCE_MS, getSuggestionDelay()));
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [questionId, note]);
+
+  const handleInsert = (suggestion: string) => {
+    if (!context) return;
+    const next = appendSuggestion(context.note, suggestion);
+    cacheRef.current.set(context.question.id, { note: next.trim(), suggestions });
+    onNoteChange(context.question.id, next);
+  };
+
+  return (
+    <div className="fixed bottom-6 right-6 z-40 w-80 max-w-[calc(100vw-3rem)] bg-white rounded-xl shadow-lg border border-elleo-purple/30 animate-fadeIn">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100">
+        <span className="text-sm font-bold text-elleo-dark">AI 꼬리 질문 제안</span>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title="닫기">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+      <div className="p-4 space-y-3 max-h-[50vh] overflow-y-auto">
+        {context && <p className="text-xs text-slate-400 line-clamp-2">{context.question.text}</p>}
+
+        {status === 'idle' && (
+          <p className="text-xs text-slate-500">질문의 메모를 작성하면 이어서 물어볼 질문을 제안합니다.</p>
+        )}
+        {(status === 'waiting' || status === 'loading') && (
+          <p className="flex items-center gap-2 text-xs text-slate-500">
+            <span className="w-2 h-2 rounded-full bg-elleo-purple animate-pulse" />
+            {status === 'waiting' ? '입력이 멈추면 제안합니다...' : '제안을 만드는 중...'}
+          </p>
+        )}
+        {status === 'failed' && <p className="text-xs text-red-600">{error}</p>}
+
+        {suggestions.map((suggestion, idx) => {
+          const inserted = !!context?.note.includes(`↳ ${suggestion}`);
+          return (
+            <button
+              key={idx}
+              onClick={() => handleInsert(suggestion)}
+              disabled={inserted}
+              className="w-full text-left px-3 py-2 rounded-md border border-slate-200 text-sm enabled:hover:border-elleo-purple enabled:hover:bg-[#f8f7ff] transition-colors disabled:opacity-50"
+            >
+              <span className="block">{suggestion}</span>
+              <span className="block mt-1 text-[11px] font-semibold text-elleo-purple">{inserted ? '메모에 추가됨' : '+ 메모에 추가'}</span>
+            </button>
+          );
+        })}
+        {status === 'ready' && suggestions.length === 0 && (
+          <p className="text-xs text-slate-500">추가로 물어볼 질문이 없습니다.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,34 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { createPortal } from 'react-dom';
 import { v4 as uuidv4 } from 'uuid';
-import { BasicInfo, InterviewRecord, Stage } from '../types';
+import { AiEvaluation, BasicInfo, CandidateOutcome, CandidateProfile, CheckpointRating, InterviewLanguage, InterviewRecord, InterviewTemplate, InterviewType, QuestionRatings, RecordConflict, RecordRevision, SaveResult } from '../types';
 import { Button } from './Button';
 import { Input } from './Input';
-import { saveRecord } from '../services/db';
-import { analyzeInterview } from '../services/geminiService';
+import { CANDIDATE_OUTCOMES, DEFAULT_RATING_SCALE, INTERVIEW_LANGUAGES, VISA_STATUSES } from '../constants';
+import { SyncStatusBadge, useSyncStatuses } from './SyncStatusBadge';
+import { RevisionHistoryPanel } from './RevisionHistoryPanel';
+import { ConflictMergeDialog } from './ConflictMergeDialog';
+import { CheckpointRatings } from './CheckpointRatings';
+import { QuestionGuide } from './QuestionGuide';
+import { AiEvaluationPanel } from './AiEvaluationPanel';
+import { ScorecardPanel } from './ScorecardPanel';
+import { ResumeExtractionPanel, WorkHistoryCard } from './ResumeExtractionPanel';
+import { FollowUpSuggestionPanel } from './FollowUpSuggestionPanel';
+import { FinaliseDialog } from './FinaliseDialog';
+import { recordRepository } from '../services/recordRepository';
+import { appConfig } from '../services/config';
+import { AnalysisOutcome, streamInterviewAnalysis } from '../services/analysisService';
+import { formatEvaluationSummary, isCompleteEvaluation } from '../services/aiEvaluation';
+import { deleteResume, getResumeDownloadUrl, isLegacyResume, saveResume } from '../services/resumeStorage';
+import { ResumeExtraction, canExtractResume, extractResume } from '../services/resumeExtraction';
+import { SuggestionContext } from '../services/followUpSuggestions';
+import { getActiveStages, getAnswerTexts, getFollowUpAnswerKey, getTemplatePositions, getTemplateQuestions, isSectionShown } from '../services/templateService';
+import { MissingItem, getRecordStatus, getStageProgress } from '../services/completion';
+import { DEFAULT_INTERVIEW_TYPE, getInterviewType } from '../services/interviewTypes';
+import { updateCheckpointRating } from '../services/ratings';
+import { computeScorecard } from '../services/scorecard';
+import { getLocalDate } from '../services/recordQuery';
+import { translateText } from '../services/templateTranslations';
 
 // Helper to parse bold text (**text**)
 const parseBold = (text: string) => {
@@ -68,20 +91,27 @@ const formatAISummary = (text: string) => {
   );
 };
 
+type Completion = Pick<InterviewRecord, 'status' | 'completedAt' | 'completionOverride'>;
+
 interface InterviewFormProps {
   initialData?: InterviewRecord;
-  stages: Stage[];
-  interviewType?: 'STANDARD' | 'DEPTH';
+  // The template version the record is pinned to (the latest one for new interviews)
+  template: InterviewTemplate;
+  interviewType?: InterviewType;
   onSave: () => void;
   onCancel: () => void;
 }
 
-export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stages, interviewType = 'STANDARD', onSave, onCancel }) => {
+export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, template, interviewType = DEFAULT_INTERVIEW_TYPE, onSave, onCancel }) => {
+  const stages = useMemo(() => getActiveStages(template.stages, initialData?.answers), [template]);
+  const typeInfo = getInterviewType(interviewType);
+  const answerTexts = useMemo(() => getAnswerTexts(template.stages), [template]);
+
   const [basicInfo, setBasicInfo] = useState<BasicInfo>({
     name: initialData?.basicInfo?.name || '',
     position: initialData?.basicInfo?.position || '',
     store: initialData?.basicInfo?.store || '',
-    date: initialData?.basicInfo?.date || new Date().toISOString().split('T')[0],
+    date: initialData?.basicInfo?.date || getLocalDate(),
     interviewer: initialData?.basicInfo?.interviewer || '',
     hasSushiExperience: initialData?.basicInfo?.hasSushiExperience ?? false,
     visaStatus: initialData?.basicInfo?.visaStatus || '',
@@ -91,16 +121,59 @@ export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stage
     birthDate: initialData?.basicInfo?.birthDate || '',
   });
 
+  const [outcome, setOutcome] = useState<CandidateOutcome>(initialData?.outcome || 'pending');
+  // Language the questions are read out in; the interviewer's notes stay as typed
+  const [language, setLanguage] = useState<InterviewLanguage>(initialData?.language || 'ko');
+  const [completion, setCompletion] = useState<Completion>(() => ({
+    status: initialData ? getRecordStatus(initialData) : 'draft',
+    completedAt: initialData?.completedAt,
+    completionOverride: initialData?.completionOverride,
+  }));
+  // Required items left open when 작성 완료 was pressed
+  const [finaliseMissing, setFinaliseMissing] = useState<MissingItem[] | null>(null);
+  const translate = (text: string) => translateText(template, language, text);
   const [answers, setAnswers] = useState<Record<string, string>>(initialData?.answers || {});
-  const [resume, setResume] = useState<{ fileName: string, fileData: string } | undefined>(initialData?.resume);
+  const [ratings, setRatings] = useState<Record<string, QuestionRatings>>(initialData?.ratings || {});
+  const ratingScale = template.ratingScale || DEFAULT_RATING_SCALE;
+  const scorecard = useMemo(
+    () => computeScorecard(template, ratings, { basicInfo, answers }),
+    [template, ratings, basicInfo, answers]
+  );
+  const [resume, setResume] = useState<InterviewRecord['resume']>(initialData?.resume);
+  const [isResumeUploading, setIsResumeUploading] = useState(false);
+  const [candidateProfile, setCandidateProfile] = useState<CandidateProfile | undefined>(initialData?.candidateProfile);
+  // Values read from the resume just chosen, waiting for the interviewer to confirm them
+  const [resumeExtraction, setResumeExtraction] = useState<{
+    status: 'extracting' | 'ready' | 'failed';
+    fileName: string;
+    result?: ResumeExtraction;
+    error?: string;
+  } | null>(null);
+  const resumeExtractionControllerRef = useRef<AbortController | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  // Server version our edits build on; advanced after every save that reaches the server
+  const [version, setVersion] = useState<number | undefined>(initialData?.version);
+  const [conflict, setConflict] = useState<RecordConflict | null>(null);
+  const closeAfterMergeRef = useRef(false);
+  // The resume the server copy points at; replaced or removed files are deleted once a save syncs
+  const savedResumeRef = useRef<InterviewRecord['resume']>(initialData?.resume);
   const [expandedQuestions, setExpandedQuestions] = useState<Set<string>>(new Set());
-  const [isAnalyzeLoading, setIsAnalyzeLoading] = useState(false);
+  // Streaming AI analysis; the controller cancels the request in flight
+  const [analysis, setAnalysis] = useState<{ status: 'idle' | 'streaming' | AnalysisOutcome; error?: string }>({ status: 'idle' });
+  const analysisControllerRef = useRef<AbortController | null>(null);
   const [aiSummary, setAiSummary] = useState<string>(initialData?.aiSummary || '');
+  const [aiEvaluation, setAiEvaluation] = useState<AiEvaluation | undefined>(initialData?.aiEvaluation);
+  // What the running (or last interrupted) analysis has produced so far; never saved
+  const [liveEvaluation, setLiveEvaluation] = useState<{ evaluation: Partial<AiEvaluation>; received: number } | null>(null);
+  // Optional side panel suggesting follow-ups for the question whose note was last focused
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [suggestionQuestionId, setSuggestionQuestionId] = useState<string | null>(null);
   const [activeStageId, setActiveStageId] = useState<string>(stages[0].id);
   const [isSaveLoading, setIsSaveLoading] = useState(false);
   const [portalTarget, setPortalTarget] = useState<HTMLElement | null>(null);
   const [pendingFocusId, setPendingFocusId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const syncStatuses = useSyncStatuses();
 
   // Persist the record ID for the session. 
   // If initialData exists, use it. Otherwise, generate one new ID and keep it.
@@ -117,6 +190,29 @@ export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stage
 
   const activeStage = stages.find(s => s.id === activeStageId) || stages[0];
   const activeStageIndex = stages.findIndex(s => s.id === activeStage.id);
+  // Sections for the candidate's position whose condition holds for what has been entered so far
+  const visibleSections = (activeStage?.sections || []).filter(section => isSectionShown(section, { basicInfo, answers }));
+  const stageProgress = useMemo(
+    () => new Map(stages.map(stage => [stage.id, getStageProgress(stage, { basicInfo, answers, ratings })])),
+    [stages, basicInfo, answers, ratings]
+  );
+  const suggestionContext = useMemo((): SuggestionContext | null => {
+    const questions = getTemplateQuestions(stages);
+    const index = questions.findIndex(q => q.id === suggestionQuestionId);
+    if (index < 0) return null;
+    return {
+      question: questions[index],
+      note: answers[questions[index].id] || '',
+      earlierAnswers: questions.slice(0, index)
+        .filter(q => answers[q.id]?.trim())
+        .map(q => ({ question: q.text, note: answers[q.id].trim() })),
+    };
+  }, [stages, answers, suggestionQuestionId]);
+  // Records from before the picklist may hold a position that is not in it
+  const positionOptions = useMemo(() => {
+    const positions = getTemplatePositions(template);
+    return basicInfo.position && !positions.includes(basicInfo.position) ? [...positions, basicInfo.position] : positions;
+  }, [template, basicInfo.position]);
 
   // Auto-focus next question when Tab is pressed
   useEffect(() => {
@@ -133,6 +229,10 @@ export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stage
     }
   }, [pendingFocusId, expandedQuestions]);
 
+  const handleRatingChange = (questionId: string, checkpoint: string, rating: CheckpointRating) => {
+    setRatings(prev => updateCheckpointRating(prev, questionId, checkpoint, rating));
+  };
+
   const handleAnswerChange = (questionId: string, value: string) => {
     setAnswers(prev => ({ ...prev, [questionId]: value }));
   };
@@ -147,17 +247,49 @@ export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stage
     setExpandedQuestions(newSet);
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setResume({
-          fileName: file.name,
-          fileData: reader.result as string
-        });
-      };
-      reader.readAsDataURL(file);
+    e.target.value = '';
+    if (!file) return;
+
+    // Read the resume alongside the upload; a failed upload still leaves the proposals
+    if (canExtractResume(file)) handleExtractResume(file);
+    setIsResumeUploading(true);
+    try {
+      setResume(await saveResume({ id: recordId, ownerId: initialData?.ownerId }, file, file.name));
+    } catch (error: any) {
+      alert(`이력서 업로드 실패: ${error?.message || '네트워크 연결을 확인해주세요.'}`);
+    } finally {
+      setIsResumeUploading(false);
+    }
+  };
+
+  const handleExtractResume = async (file: File) => {
+    resumeExtractionControllerRef.current?.abort();
+    const controller = new AbortController();
+    resumeExtractionControllerRef.current = controller;
+    setResumeExtraction({ status: 'extracting', fileName: file.name });
+    try {
+      const result = await extractResume(file, controller.signal);
+      setResumeExtraction({ status: 'ready', fileName: file.name, result });
+    } catch (error: any) {
+      if (controller.signal.aborted) return;
+      setResumeExtraction({ status: 'failed', fileName: file.name, error: error?.message });
+    }
+  };
+
+  const closeResumeExtraction = () => {
+    resumeExtractionControllerRef.current?.abort();
+    setResumeExtraction(null);
+  };
+
+  const handleResumeDownload = async (e: React.MouseEvent) => {
+    if (!resume || isLegacyResume(resume)) return;
+    e.preventDefault();
+    try {
+      window.open(await getResumeDownloadUrl(resume), '_blank', 'noopener');
+    } catch (error) {
+      alert('이력서 다운로드 링크를 만들 수 없습니다.');
     }
   };
 
@@ -178,7 +310,104 @@ export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stage
     setExpandedQuestions(newExpanded);
   }, [activeStageId]);
 
-  const handleSave = async (shouldClose = false) => {
+  const buildRecord = (content: Pick<InterviewRecord, 'answers' | 'aiSummary' | 'aiEvaluation'>, recordCompletion = completion): InterviewRecord => ({
+    id: recordId, // Use the persistent ID
+    ownerId: initialData?.ownerId,
+    basicInfo: {
+      ...basicInfo,
+      interviewType
+    },
+    ...content,
+    ratings,
+    overallScore: scorecard.overall ?? undefined,
+    passed: scorecard.passed ?? undefined,
+    resume,
+    candidateProfile,
+    outcome,
+    templateId: template.id,
+    templateVersion: template.version,
+    language,
+    ...recordCompletion,
+    createdAt: initialData?.createdAt || Date.now(),
+    version
+  });
+
+  // Saves through the repository, then removes a Storage resume the saved record no
+  // longer points at, as deleteRecord does for the whole record
+  const persistRecord = async (record: InterviewRecord): Promise<SaveResult> => {
+    const result = await recordRepository.saveRecord(record);
+    const savedResume = result.resume ?? record.resume;
+    if (result.resume) setResume(result.resume);
+    if (result.status !== 'synced') return result;
+
+    const previous = savedResumeRef.current;
+    savedResumeRef.current = savedResume;
+    const savedPath = savedResume && !isLegacyResume(savedResume) ? savedResume.storagePath : undefined;
+    if (previous && !isLegacyResume(previous) && previous.storagePath !== savedPath) {
+      // The record is saved either way; a leftover file is only logged
+      deleteResume(previous.storagePath).catch(error => console.error('Removing the replaced resume failed:', error));
+    }
+    return result;
+  };
+
+  // Track the new server version, or open the merge dialog when someone else
+  // saved first. Returns true when the save was rejected with a conflict.
+  const handleSaveResult = async (result: SaveResult, shouldClose = false): Promise<boolean> => {
+    if (result.version !== undefined) {
+      setVersion(result.version);
+    }
+    if (result.status !== 'conflict') return false;
+
+    const pending = await recordRepository.getConflict(recordId);
+    if (pending) {
+      closeAfterMergeRef.current = shouldClose;
+      setConflict(pending);
+    } else {
+      alert("다른 사용자가 먼저 이 기록을 수정했습니다. 다시 불러온 후 수정해주세요.");
+    }
+    return true;
+  };
+
+  const openPendingConflict = async () => {
+    const pending = await recordRepository.getConflict(recordId);
+    if (pending) setConflict(pending);
+  };
+
+  const handleResolveConflict = async (resolved: InterviewRecord) => {
+    // The merge may take the other side's ratings, so the stored score and pass
+    // result are worked out again from what is being saved
+    const mergedScorecard = computeScorecard(template, resolved.ratings, resolved);
+    const merged: InterviewRecord = {
+      ...resolved,
+      overallScore: mergedScorecard.overall ?? undefined,
+      passed: mergedScorecard.passed ?? undefined
+    };
+    setConflict(null);
+    setAnswers(merged.answers);
+    setRatings(merged.ratings || {});
+    setAiSummary(merged.aiSummary || '');
+    setAiEvaluation(merged.aiEvaluation);
+    setVersion(merged.version);
+
+    setIsSaveLoading(true);
+    try {
+      const result = await persistRecord(merged);
+      if (await handleSaveResult(result, closeAfterMergeRef.current)) return;
+
+      if (closeAfterMergeRef.current) {
+        onSave();
+      } else {
+        alert("병합한 내용이 저장되었습니다.");
+      }
+    } catch (error) {
+      console.error(error);
+      alert("저장 중 오류가 발생했습니다.");
+    } finally {
+      setIsSaveLoading(false);
+    }
+  };
+
+  const handleSave = async (shouldClose = false, nextCompletion = completion) => {
     if (!basicInfo.name) {
       alert("지원자명을 입력해주세요.");
       return;
@@ -186,28 +415,23 @@ export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stage
 
     setIsSaveLoading(true);
     try {
-      const record: InterviewRecord = {
-        id: recordId, // Use the persistent ID
-        basicInfo: {
-          ...basicInfo,
-          interviewType: (interviewType as 'STANDARD' | 'DEPTH') || 'STANDARD'
-        },
-        answers,
-        resume,
-        aiSummary,
-        createdAt: initialData?.createdAt || Date.now()
-      };
-
-      await saveRecord(record);
+      const record = buildRecord({ answers, aiSummary, aiEvaluation }, nextCompletion);
+      const result = await persistRecord(record);
+      setCompletion(nextCompletion);
+      if (await handleSaveResult(result, shouldClose)) return;
 
       if (shouldClose) {
         onSave();
-      } else {
+      } else if (result.status === 'synced') {
         alert("임시 저장되었습니다.");
+      } else if (result.status === 'pending') {
+        alert("오프라인 상태입니다. 기기에 저장되었으며 연결되면 자동으로 동기화됩니다.");
+      } else {
+        alert("기기에 저장되었지만 서버 동기화에 실패했습니다. 잠시 후 자동으로 다시 시도합니다.");
       }
     } catch (error) {
-      // Error is already alerted in saveRecord but we catch here too just in case
       console.error(error);
+      alert("저장 중 오류가 발생했습니다.");
     } finally {
       setIsSaveLoading(false);
     }
@@ -232,15 +456,52 @@ export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stage
     }
   }, [activeStageId]);
 
+  // Finalising needs every required item, or a reason that is kept with the record
+  const handleFinalise = (overrideReason?: string) => {
+    const missing = stages.flatMap(stage => stageProgress.get(stage.id)!.missing);
+    if (missing.length > 0 && !overrideReason) {
+      setFinaliseMissing(missing);
+      return;
+    }
+
+    setFinaliseMissing(null);
+    handleSave(true, {
+      status: 'completed',
+      completedAt: completion.completedAt ?? Date.now(),
+      completionOverride: missing.length > 0 ? overrideReason : undefined,
+    });
+  };
+
+  const handleGoToMissing = (item: MissingItem) => {
+    setFinaliseMissing(null);
+    setActiveStageId(item.stageId);
+    if (item.questionId) {
+      setExpandedQuestions(prev => new Set(prev).add(item.questionId!));
+      setPendingFocusId(item.questionId);
+    }
+  };
+
   const handleNextStage = () => {
     if (activeStageIndex < stages.length - 1) {
       setActiveStageId(stages[activeStageIndex + 1].id);
     } else {
-      // Last stage - Save and Close
-      handleSave(true);
+      // Last stage - finalise and close
+      handleFinalise();
     }
   };
 
+  // Load an older revision into the form. It only becomes current once saved,
+  // which appends a new revision rather than rewriting history.
+  const handleRestoreRevision = (revision: RecordRevision) => {
+    setAnswers(revision.answers);
+    // Revisions from before ratings were snapshotted leave the current ratings as they are
+    if (revision.ratings) setRatings(revision.ratings);
+    // Revisions only keep the summary text; the structured evaluation no longer matches it
+    if ((revision.aiSummary || '') !== aiSummary) setAiEvaluation(undefined);
+    setAiSummary(revision.aiSummary || '');
+    setShowHistory(false);
+  };
+
   const handlePrevStage = () => {
     if (activeStageIndex > 0) {
       setActiveStageId(stages[activeStageIndex - 1].id);
@@ -253,46 +514,81 @@ export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stage
       return;
     }
 
-    setIsAnalyzeLoading(true);
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
+    setAnalysis({ status: 'streaming' });
+    setLiveEvaluation({ evaluation: {}, received: 0 });
 
     // Create a temporary record for analysis
     const tempRecord: InterviewRecord = {
       id: 'temp',
-      basicInfo,
+      basicInfo: {
+        ...basicInfo,
+        interviewType
+      },
       answers,
+      ratings,
+      templateId: template.id,
+      templateVersion: template.version,
+      language,
       createdAt: Date.now()
     };
 
-    const summary = await analyzeInterview(tempRecord);
-    setAiSummary(summary);
+    const result = await streamInterviewAnalysis(
+      tempRecord,
+      (evaluation, received) => setLiveEvaluation({ evaluation, received }),
+      controller.signal
+    );
+    analysisControllerRef.current = null;
+    setAnalysis({ status: result.outcome, error: result.error });
+    // Partial output stays on screen but is never saved
+    if (result.outcome !== 'completed' || !isCompleteEvaluation(result.evaluation)) return;
 
-    // Auto-save the record with the new summary
-    const updatedRecord: InterviewRecord = {
-      ...tempRecord,
-      aiSummary: summary,
-      id: recordId, // Ensure we use the persistent ID
-      basicInfo: {
-        ...tempRecord.basicInfo,
-        interviewType: (interviewType as 'STANDARD' | 'DEPTH') || 'STANDARD'
-      }
-    };
+    const evaluation = result.evaluation;
+    const summary = formatEvaluationSummary(evaluation, answerTexts);
+    setAiEvaluation(evaluation);
+    setAiSummary(summary);
+    setLiveEvaluation(null);
 
+    // Auto-save the record with the new evaluation
     try {
-      await saveRecord(updatedRecord);
-      // Optional: alert or toast? "AI Analysis Saved"
+      const saved = await persistRecord(buildRecord({ answers, aiSummary: summary, aiEvaluation: evaluation }));
+      await handleSaveResult(saved);
     } catch (e) {
       console.error("Failed to auto-save AI summary", e);
     }
+  };
+
+  const handleCancelAnalysis = () => analysisControllerRef.current?.abort();
 
-    setIsAnalyzeLoading(false);
+  const handleGoToQuestion = (questionId: string) => {
+    const stage = stages.find(s => s.sections.some(section => section.questions?.some(q => q.id === questionId)));
+    if (!stage) return;
+    setActiveStageId(stage.id);
+    setExpandedQuestions(prev => new Set(prev).add(questionId));
+    setPendingFocusId(questionId);
   };
 
+  // Leaving the form stops a running analysis
+  useEffect(() => () => {
+    analysisControllerRef.current?.abort();
+    resumeExtractionControllerRef.current?.abort();
+  }, []);
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-24">
 
       {/* Basic Info Form */}
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 mb-0 mt-6">
-        <h2 className="text-xl font-bold text-elleo-dark mb-4 border-b pb-2">기본 정보</h2>
+        <h2 className="flex items-center gap-2 text-xl font-bold text-elleo-dark mb-4 border-b pb-2">
+          기본 정보
+          <span className={`px-2 py-0.5 rounded text-xs font-bold ${typeInfo.badgeClass}`}>{typeInfo.name}</span>
+        </h2>
+        {initialData?.anonymisedAt && (
+          <div className="mb-4 px-4 py-3 rounded-lg bg-slate-50 border border-slate-200 text-sm text-slate-500">
+            보관 기간이 지나 {new Date(initialData.anonymisedAt).toLocaleDateString()}에 개인정보와 이력서가 익명 처리된 기록입니다.
+          </div>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           <Input
             label="지원자명"
@@ -324,13 +620,9 @@ export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stage
               className="block w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-elleo-purple/20 focus:border-elleo-purple text-sm transition-shadow h-[42px]"
             >
               <option value="" disabled>Select status...</option>
-              <option value="Australian Citizen">Australian Citizen</option>
-              <option value="Permanent Resident">Permanent Resident</option>
-              <option value="Partner / De facto">Partner / De facto</option>
-              <option value="International Student">International Student</option>
-              <option value="Working Holiday">Working Holiday</option>
-              <option value="Temporary Skill Shortage (TSS)">Temporary Skill Shortage (TSS)</option>
-              <option value="Others">Others</option>
+              {VISA_STATUSES.map(status => (
+                <option key={status} value={status}>{status}</option>
+              ))}
             </select>
           </div>
           <Input
@@ -344,11 +636,19 @@ export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stage
           {/* Divider */}
           <div className="col-span-1 md:col-span-2 lg:col-span-3 my-2 border-b border-slate-200 border-dashed" />
 
-          <Input
-            label="지원 포지션"
-            value={basicInfo.position}
-            onChange={e => setBasicInfo({ ...basicInfo, position: e.target.value })}
-          />
+          <div className="flex flex-col gap-1">
+            <label className="block text-sm font-bold text-slate-700">지원 포지션</label>
+            <select
+              value={basicInfo.position}
+              onChange={e => setBasicInfo({ ...basicInfo, position: e.target.value })}
+              className="block w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-elleo-purple/20 focus:border-elleo-purple text-sm transition-shadow h-[42px]"
+            >
+              <option value="" disabled>Select position...</option>
+              {positionOptions.map(position => (
+                <option key={position} value={position}>{position}</option>
+              ))}
+            </select>
+          </div>
           <Input
             label="지원 매장"
             value={basicInfo.store}
@@ -365,7 +665,19 @@ export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stage
             value={basicInfo.date}
             onChange={e => setBasicInfo({ ...basicInfo, date: e.target.value })}
           />
-          {interviewType !== 'DEPTH' && (
+          <div className="flex flex-col gap-1">
+            <label className="block text-sm font-bold text-slate-700">채용 결과</label>
+            <select
+              value={outcome}
+              onChange={e => setOutcome(e.target.value as CandidateOutcome)}
+              className="block w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-elleo-purple/20 focus:border-elleo-purple text-sm transition-shadow h-[42px]"
+            >
+              {CANDIDATE_OUTCOMES.map(o => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+          </div>
+          {typeInfo.askSushiExperience && (
             <div className="flex flex-col justify-end pb-1">
               <label className="flex items-center gap-2 cursor-pointer py-2 px-4 bg-slate-50 border border-slate-200 rounded-lg hover:bg-slate-100 transition-colors h-[42px]">
                 <input
@@ -395,12 +707,13 @@ export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stage
               <button
                 type="button"
                 onClick={() => fileInputRef.current?.click()}
-                className="py-2 px-6 rounded-full border-0 text-sm font-semibold bg-elleo-purple-light text-elleo-dark transition-all duration-200 cursor-pointer hover:bg-slate-800 hover:text-elleo-purple hover:shadow-md hover:-translate-y-0.5"
+                disabled={isResumeUploading}
+                className="py-2 px-6 rounded-full border-0 text-sm font-semibold bg-elleo-purple-light text-elleo-dark transition-all duration-200 cursor-pointer hover:bg-slate-800 hover:text-elleo-purple hover:shadow-md hover:-translate-y-0.5 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Choose file
               </button>
               <span className="text-sm text-slate-300 select-none cursor-default pointer-events-none">
-                No file chosen
+                {isResumeUploading ? 'Uploading...' : 'No file chosen'}
               </span>
             </div>
           ) : (
@@ -409,15 +722,53 @@ export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stage
                 <svg className="w-5 h-5 text-elleo-purple" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                 </svg>
-                <a href={resume.fileData} download={resume.fileName} className="text-sm font-medium text-elleo-dark hover:text-elleo-purple hover:underline truncate max-w-[200px]">
+                <a
+                  href={isLegacyResume(resume) ? resume.fileData : '#'}
+                  download={resume.fileName}
+                  onClick={handleResumeDownload}
+                  className="text-sm font-medium text-elleo-dark hover:text-elleo-purple hover:underline truncate max-w-[200px]"
+                >
                   {resume.fileName}
                 </a>
+                {!isLegacyResume(resume) && (
+                  <span className="text-xs text-slate-400">
+                    {(resume.size / 1024).toFixed(0)} KB · {new Date(resume.uploadedAt).toLocaleDateString()}
+                  </span>
+                )}
               </div>
               <button onClick={clearResume} className="text-slate-400 hover:text-red-500">
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
               </button>
             </div>
           )}
+          {resumeExtraction?.status === 'extracting' && (
+            <p className="mt-3 flex items-center gap-2 text-xs text-slate-500">
+              <span className="w-2 h-2 rounded-full bg-elleo-purple animate-pulse" />
+              이력서에서 지원자 정보를 읽는 중...
+              <button onClick={closeResumeExtraction} className="text-slate-400 hover:text-red-500 underline">중단</button>
+            </p>
+          )}
+          {resumeExtraction?.status === 'failed' && (
+            <p className="mt-3 text-xs text-red-600">
+              {resumeExtraction.error}
+              <button onClick={closeResumeExtraction} className="ml-2 text-slate-400 hover:text-slate-600 underline">닫기</button>
+            </p>
+          )}
+          {resumeExtraction?.status === 'ready' && resumeExtraction.result && (
+            <ResumeExtractionPanel
+              key={resumeExtraction.fileName}
+              fileName={resumeExtraction.fileName}
+              extraction={resumeExtraction.result}
+              basicInfo={basicInfo}
+              onApplyField={(field, value) => setBasicInfo(prev => ({ ...prev, [field]: value }))}
+              onApplyWorkHistory={workHistory => setCandidateProfile({
+                workHistory,
+                sourceFileName: resumeExtraction.fileName,
+                extractedAt: Date.now(),
+              })}
+              onClose={closeResumeExtraction}
+            />
+          )}
         </div>
       </div>
 
@@ -434,8 +785,56 @@ export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stage
               <span className="text-slate-300 transform scale-125">|</span>
               <span className="text-slate-500 font-medium text-lg">{basicInfo.store || '지원 매장'}</span>
             </div>
-            <div className="text-xs text-slate-400 font-mono hidden sm:block">
-              Interview Mate
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setShowSuggestions(prev => !prev)}
+                className={`px-2.5 py-1 rounded-lg border text-xs font-semibold transition-colors ${showSuggestions
+                  ? 'bg-elleo-purple text-white border-elleo-purple'
+                  : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+                title="메모를 작성하는 동안 AI가 꼬리 질문을 제안합니다"
+              >
+                꼬리 질문 제안
+              </button>
+              <div className="flex rounded-lg border border-slate-200 overflow-hidden" title="질문 언어">
+                {INTERVIEW_LANGUAGES.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setLanguage(option.value)}
+                    className={`px-2.5 py-1 text-xs font-semibold transition-colors ${language === option.value
+                      ? 'bg-elleo-purple text-white'
+                      : 'bg-white text-slate-500 hover:bg-slate-50'}`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              {initialData && (
+                <button
+                  onClick={() => setShowHistory(true)}
+                  className="flex items-center gap-1 text-xs font-semibold text-slate-500 hover:text-elleo-purple transition-colors"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                  변경 이력
+                </button>
+              )}
+              <span
+                className={`px-2 py-0.5 rounded text-xs font-semibold ${completion.status === 'completed' ? 'bg-elleo-purple-light text-elleo-dark' : 'bg-slate-100 text-slate-500'}`}
+                title={completion.completionOverride ? `필수 항목 미작성 사유: ${completion.completionOverride}` : undefined}
+              >
+                {completion.status === 'completed' ? '작성 완료' : '작성 중'}{completion.completionOverride && ' (사유 있음)'}
+              </span>
+              <SyncStatusBadge status={syncStatuses[recordId] ?? (initialData ? 'synced' : undefined)} />
+              {syncStatuses[recordId] === 'conflict' && (
+                <button
+                  onClick={openPendingConflict}
+                  className="text-xs font-bold text-orange-700 hover:underline"
+                >
+                  병합하기
+                </button>
+              )}
+              <div className="text-xs text-slate-400 font-mono hidden sm:block">
+                Interview Mate
+              </div>
             </div>
           </div>
         </div>
@@ -455,6 +854,7 @@ export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stage
                   <div className="flex overflow-x-auto gap-2 no-scrollbar w-full">
                     {stages.map((stage, index) => {
                       const isActive = activeStageId === stage.id;
+                      const progress = stageProgress.get(stage.id)!;
                       return (
                         <button
                           key={stage.id}
@@ -465,6 +865,17 @@ export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stage
                             }`}
                         >
                           {stage.title}
+                          {progress.total > 0 && (
+                            <span
+                              className={`ml-2 text-[11px] font-semibold ${progress.missing.length > 0
+                                ? (isActive ? 'text-white' : 'text-red-500')
+                                : (isActive ? 'text-white/80' : 'text-slate-400')}`}
+                              title={progress.missing.length > 0 ? `필수 항목 ${progress.missing.length}개 미작성` : undefined}
+                            >
+                              {progress.done === progress.total ? '✓' : `${progress.done}/${progress.total}`}
+                              {progress.missing.length > 0 && ' •'}
+                            </span>
+                          )}
                         </button>
                       );
                     })}
@@ -498,184 +909,199 @@ export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stage
           </div>
 
           <div className="p-6 space-y-8">
-            {(activeStage?.sections || [])
-              .filter(section => {
-                if (!section.condition) return true;
-                const cond = section.condition.trim();
-                if (cond === '') return true;
-                if (cond === 'hasSushiExperience === true') return basicInfo.hasSushiExperience === true;
-                if (cond === 'hasSushiExperience === false') return basicInfo.hasSushiExperience === false;
-                return true;
-              })
-              .map(section => (
-                <div key={section.id}>
-                  {section.title && (
-                    <div className="flex items-center gap-3 mb-5 border-l-[3px] border-elleo-purple pl-3 py-1 bg-slate-50/50 rounded-r-lg">
-                      <h4 className="text-[15px] font-bold text-elleo-dark tracking-tight leading-none">
-                        {section.title}
-                      </h4>
-                    </div>
-                  )}
-                  <div className="space-y-6">
-                    {/* Render Notices as a Checklist */}
-                    {section.notices && section.notices.length > 0 && (
-                      <div className="bg-[#f8f7ff] border border-elleo-purple/20 rounded-lg p-5 space-y-4">
-                        <div className="space-y-3">
-                          {section.notices.map((notice, idx) => {
-                            const noticeKey = `notice-${section.id}-${idx}`;
-                            const isChecked = answers[noticeKey] === 'true';
-                            return (
-                              <label
-                                key={idx}
-                                className={`flex items-start gap-3 p-3 rounded-lg border transition-all cursor-pointer ${isChecked ? 'bg-white border-elleo-purple shadow-sm' : 'bg-white/50 border-slate-100 hover:border-elleo-purple/20'
-                                  }`}
-                              >
-                                <div className="mt-0.5">
-                                  <input
-                                    type="checkbox"
-                                    className="w-4 h-4 text-elleo-purple border-slate-300 rounded focus:ring-elleo-purple accent-elleo-purple"
-                                    checked={isChecked}
-                                    onChange={(e) => {
-                                      const newValue = e.target.checked ? 'true' : 'false';
-                                      setAnswers(prev => {
-                                        const next = { ...prev, [noticeKey]: newValue };
-                                        // If unchecking any notice, also uncheck the main consent
-                                        if (!e.target.checked) {
-                                          next[`consent-${section.id}`] = 'false';
-                                        }
-                                        return next;
-                                      });
-                                    }}
-                                  />
-                                </div>
-                                <p className={`text-sm leading-relaxed ${isChecked ? 'text-elleo-dark font-bold' : 'text-slate-600'}`}>
-                                  {notice}
-                                </p>
-                              </label>
-                            );
-                          })}
-                        </div>
-
-                        {section.requireConsent && (
-                          <div className="pt-4 mt-2 border-t border-elleo-purple/10">
-                            <label className="flex items-center gap-3 cursor-pointer group">
-                              <div className="relative flex items-center justify-center">
+            {activeStage.showWorkHistory && !!candidateProfile?.workHistory.length && (
+              <WorkHistoryCard profile={candidateProfile} />
+            )}
+            {visibleSections.map(section => (
+              <div key={section.id}>
+                {section.title && (
+                  <div className="flex items-center gap-3 mb-5 border-l-[3px] border-elleo-purple pl-3 py-1 bg-slate-50/50 rounded-r-lg">
+                    <h4 className="text-[15px] font-bold text-elleo-dark tracking-tight leading-none">
+                      {section.title}
+                    </h4>
+                  </div>
+                )}
+                <div className="space-y-6">
+                  {/* Render Notices as a Checklist */}
+                  {section.notices && section.notices.length > 0 && (
+                    <div className="bg-[#f8f7ff] border border-elleo-purple/20 rounded-lg p-5 space-y-4">
+                      <div className="space-y-3">
+                        {section.notices.map((notice, idx) => {
+                          const noticeKey = `notice-${section.id}-${idx}`;
+                          const isChecked = answers[noticeKey] === 'true';
+                          return (
+                            <label
+                              key={idx}
+                              className={`flex items-start gap-3 p-3 rounded-lg border transition-all cursor-pointer ${isChecked ? 'bg-white border-elleo-purple shadow-sm' : 'bg-white/50 border-slate-100 hover:border-elleo-purple/20'
+                                }`}
+                            >
+                              <div className="mt-0.5">
                                 <input
                                   type="checkbox"
-                                  id={`consent-${section.id}`}
-                                  className="peer w-5 h-5 text-elleo-purple border-slate-300 rounded focus:ring-elleo-purple accent-elleo-purple"
-                                  checked={answers[`consent-${section.id}`] === 'true'}
+                                  className="w-4 h-4 text-elleo-purple border-slate-300 rounded focus:ring-elleo-purple accent-elleo-purple"
+                                  checked={isChecked}
                                   onChange={(e) => {
-                                    const isChecked = e.target.checked;
+                                    const newValue = e.target.checked ? 'true' : 'false';
                                     setAnswers(prev => {
-                                      const next = { ...prev, [`consent-${section.id}`]: isChecked ? 'true' : 'false' };
-                                      // If checking the main consent, check all notices
-                                      if (isChecked && section.notices) {
-                                        section.notices.forEach((_, idx) => {
-                                          next[`notice-${section.id}-${idx}`] = 'true';
-                                        });
-                                      } else if (!isChecked && section.notices) {
-                                        // Optional: Uncheck all if main is unchecked
-                                        section.notices.forEach((_, idx) => {
-                                          next[`notice-${section.id}-${idx}`] = 'false';
-                                        });
+                                      const next = { ...prev, [noticeKey]: newValue };
+                                      // If unchecking any notice, also uncheck the main consent
+                                      if (!e.target.checked) {
+                                        next[`consent-${section.id}`] = 'false';
                                       }
                                       return next;
                                     });
                                   }}
                                 />
                               </div>
-                              <span className="text-sm font-bold text-elleo-dark group-hover:text-elleo-purple transition-colors">
-                                지원자에게 위 모든 고지사항을 안내하고 최종 동의를 확인했습니다.
-                              </span>
+                              <div>
+                                <p className={`text-sm leading-relaxed ${isChecked ? 'text-elleo-dark font-bold' : 'text-slate-600'}`}>
+                                  {translate(notice)}
+                                </p>
+                                {translate(notice) !== notice && <p className="text-xs text-slate-400 mt-1">{notice}</p>}
+                              </div>
                             </label>
-                          </div>
-                        )}
+                          );
+                        })}
                       </div>
-                    )}
-
-                    {/* Render Questions if they exist */}
-                    {section.questions?.map(q => {
-                      const isExpanded = expandedQuestions.has(q.id);
-                      const hasAnswer = !!answers[q.id];
-
-                      return (
-                        <div key={q.id} className={`bg-slate-50 rounded-lg border transition-all duration-200 ${isExpanded ? 'border-elleo-purple ring-1 ring-elleo-purple/30 shadow-sm' : (hasAnswer ? 'border-elleo-purple' : 'border-slate-100 hover:border-elleo-purple/30')}`}>
-                          <div
-                            className="p-4 cursor-pointer flex justify-between items-start gap-4"
-                            onClick={() => toggleQuestion(q.id)}
-                          >
-                            <div className="flex-1 flex items-center justify-between gap-4">
-                              <p className={`font-medium ${isExpanded ? 'text-elleo-dark' : 'text-slate-700'}`}>{q.text}</p>
-                              {q.checkpoints && q.checkpoints.length > 0 && (
-                                <div className="flex flex-wrap gap-2 flex-shrink-0">
-                                  {q.checkpoints.map((cp, idx) => (
-                                    <span key={idx} className="text-xs bg-[#f5f3ff] text-elleo-purple border border-elleo-purple px-2 py-0.5 rounded-[6px]">
-                                      {cp}
-                                    </span>
-                                  ))}
-                                </div>
-                              )}
-                            </div>
-                            <div className={`transition-transform duration-200 ${isExpanded ? 'rotate-180' : ''}`}>
-                              <svg className="w-5 h-5 text-slate-400 group-hover:text-elleo-purple" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
-                              </svg>
-                            </div>
-                          </div>
 
-                          {isExpanded && (
-                            <div className="px-4 pb-4 animate-fadeIn">
-                              <textarea
-                                id={`textarea-${q.id}`}
-                                name={`answer-${q.id}`}
-                                className="w-full p-3 bg-white border border-slate-300 rounded-md focus:ring-0 focus:border-elleo-purple min-h-[100px] text-sm resize-y placeholder-slate-400 transition-shadow"
-                                placeholder="평가 내용을 입력하세요..."
-                                value={answers[q.id] || ''}
-                                autoComplete="off"
-                                spellCheck={false}
-                                // @ts-ignore
-                                autoCorrect="off"
-                                onChange={e => handleAnswerChange(q.id, e.target.value)}
-                                onKeyDown={(e) => {
-                                  if (e.key === 'Tab') {
-                                    e.preventDefault(); // Stop browser default immediately
-
-                                    // Detect all visible questions to find next/prev
-                                    const visibleQuestions = (activeStage?.sections || [])
-                                      .filter(section => {
-                                        if (!section.condition) return true;
-                                        const cond = section.condition.trim();
-                                        if (cond === '') return true;
-                                        if (cond === 'hasSushiExperience === true') return basicInfo.hasSushiExperience === true;
-                                        if (cond === 'hasSushiExperience === false') return basicInfo.hasSushiExperience === false;
-                                        return true;
-                                      })
-                                      .flatMap(s => s.questions || []);
-
-                                    const currentIndex = visibleQuestions.findIndex(vq => vq.id === q.id);
-
-                                    if (!e.shiftKey && currentIndex < visibleQuestions.length - 1) {
-                                      const nextId = visibleQuestions[currentIndex + 1].id;
-                                      setExpandedQuestions(prev => new Set(prev).add(nextId));
-                                      setPendingFocusId(nextId);
-                                    } else if (e.shiftKey && currentIndex > 0) {
-                                      const prevId = visibleQuestions[currentIndex - 1].id;
-                                      setExpandedQuestions(prev => new Set(prev).add(prevId));
-                                      setPendingFocusId(prevId);
+                      {section.requireConsent && (
+                        <div className="pt-4 mt-2 border-t border-elleo-purple/10">
+                          <label className="flex items-center gap-3 cursor-pointer group">
+                            <div className="relative flex items-center justify-center">
+                              <input
+                                type="checkbox"
+                                id={`consent-${section.id}`}
+                                className="peer w-5 h-5 text-elleo-purple border-slate-300 rounded focus:ring-elleo-purple accent-elleo-purple"
+                                checked={answers[`consent-${section.id}`] === 'true'}
+                                onChange={(e) => {
+                                  const isChecked = e.target.checked;
+                                  setAnswers(prev => {
+                                    const next = { ...prev, [`consent-${section.id}`]: isChecked ? 'true' : 'false' };
+                                    // If checking the main consent, check all notices
+                                    if (isChecked && section.notices) {
+                                      section.notices.forEach((_, idx) => {
+                                        next[`notice-${section.id}-${idx}`] = 'true';
+                                      });
+                                    } else if (!isChecked && section.notices) {
+                                      // Optional: Uncheck all if main is unchecked
+                                      section.notices.forEach((_, idx) => {
+                                        next[`notice-${section.id}-${idx}`] = 'false';
+                                      });
                                     }
-                                  }
+                                    return next;
+                                  });
                                 }}
-                                onClick={e => e.stopPropagation()}
                               />
                             </div>
-                          )}
+                            <span className="text-sm font-bold text-elleo-dark group-hover:text-elleo-purple transition-colors">
+                              지원자에게 위 모든 고지사항을 안내하고 최종 동의를 확인했습니다.
+                            </span>
+                          </label>
                         </div>
-                      );
-                    })}
-                  </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Render Questions if they exist */}
+                  {section.questions?.map(q => {
+                    const isExpanded = expandedQuestions.has(q.id);
+                    const hasAnswer = !!answers[q.id] || !!q.followUps?.some(f => answers[getFollowUpAnswerKey(f.id)]);
+
+                    return (
+                      <div key={q.id} className={`bg-slate-50 rounded-lg border transition-all duration-200 ${isExpanded ? 'border-elleo-purple ring-1 ring-elleo-purple/30 shadow-sm' : (hasAnswer ? 'border-elleo-purple' : 'border-slate-100 hover:border-elleo-purple/30')}`}>
+                        <div
+                          className="p-4 cursor-pointer flex justify-between items-start gap-4"
+                          onClick={() => toggleQuestion(q.id)}
+                        >
+                          <div className="flex-1 flex items-center justify-between gap-4">
+                            <div>
+                              <p className={`font-medium ${isExpanded ? 'text-elleo-dark' : 'text-slate-700'}`}>
+                                {q.required && <span className="text-red-500 mr-1" title="필수 질문">*</span>}
+                                {translate(q.text)}
+                              </p>
+                              {/* The Korean original stays visible for the interviewer */}
+                              {translate(q.text) !== q.text && <p className="text-xs text-slate-400 mt-1">{q.text}</p>}
+                            </div>
+                            {q.checkpoints && q.checkpoints.length > 0 && (
+                              <div className="flex flex-wrap gap-2 flex-shrink-0">
+                                {q.checkpoints.map((cp, idx) => {
+                                  const rating = ratings[q.id]?.[cp];
+                                  return (
+                                    <span key={idx} title={cp} className={`text-xs border px-2 py-0.5 rounded-[6px] ${rating?.redFlag
+                                      ? 'bg-red-50 text-red-600 border-red-400'
+                                      : 'bg-[#f5f3ff] text-elleo-purple border-elleo-purple'}`}>
+                                      {rating?.redFlag && '🚩 '}{translate(cp)}{rating?.score !== undefined && ` · ${rating.score}/${ratingScale.max}`}
+                                    </span>
+                                  );
+                                })}
+                              </div>
+                            )}
+                          </div>
+                          <div className={`transition-transform duration-200 ${isExpanded ? 'rotate-180' : ''}`}>
+                            <svg className="w-5 h-5 text-slate-400 group-hover:text-elleo-purple" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+                            </svg>
+                          </div>
+                        </div>
+
+                        {isExpanded && (
+                          <div className="px-4 pb-4 animate-fadeIn">
+                            {q.checkpoints?.length > 0 && (
+                              <CheckpointRatings
+                                checkpoints={q.checkpoints}
+                                ratings={ratings[q.id]}
+                                scale={ratingScale}
+                                onChange={(checkpoint, rating) => handleRatingChange(q.id, checkpoint, rating)}
+                              />
+                            )}
+                            <textarea
+                              id={`textarea-${q.id}`}
+                              name={`answer-${q.id}`}
+                              className="w-full p-3 bg-white border border-slate-300 rounded-md focus:ring-0 focus:border-elleo-purple min-h-[100px] text-sm resize-y placeholder-slate-400 transition-shadow"
+                              placeholder="평가 내용을 입력하세요..."
+                              value={answers[q.id] || ''}
+                              autoComplete="off"
+                              spellCheck={false}
+                              // @ts-ignore
+                              autoCorrect="off"
+                              onChange={e => handleAnswerChange(q.id, e.target.value)}
+                              onFocus={() => setSuggestionQuestionId(q.id)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Tab') {
+                                  e.preventDefault(); // Stop browser default immediately
+
+                                  // Detect all visible questions to find next/prev
+                                  const visibleQuestions = visibleSections.flatMap(s => s.questions || []);
+
+                                  const currentIndex = visibleQuestions.findIndex(vq => vq.id === q.id);
+
+                                  if (!e.shiftKey && currentIndex < visibleQuestions.length - 1) {
+                                    const nextId = visibleQuestions[currentIndex + 1].id;
+                                    setExpandedQuestions(prev => new Set(prev).add(nextId));
+                                    setPendingFocusId(nextId);
+                                  } else if (e.shiftKey && currentIndex > 0) {
+                                    const prevId = visibleQuestions[currentIndex - 1].id;
+                                    setExpandedQuestions(prev => new Set(prev).add(prevId));
+                                    setPendingFocusId(prevId);
+                                  }
+                                }
+                              }}
+                              onClick={e => e.stopPropagation()}
+                            />
+                            <QuestionGuide
+                              question={q}
+                              answers={answers}
+                              translate={translate}
+                              onAnswerChange={handleAnswerChange}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
-              ))}
+              </div>
+            ))}
 
             {/* Big Navigation Buttons */}
             <div className="grid grid-cols-2 gap-4 pt-8 border-t border-slate-100 mt-8">
@@ -708,6 +1134,8 @@ export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stage
         </div>
       </div>
 
+      <ScorecardPanel scorecard={scorecard} position={basicInfo.position} />
+
       {/* AI Summary Section */}
       <div className="mt-8 bg-white rounded-xl shadow-sm border border-elleo-purple/30 p-6">
         <div className="flex items-center justify-between mb-4">
@@ -718,23 +1146,94 @@ export const InterviewForm: React.FC<InterviewFormProps> = ({ initialData, stage
               </svg>
             </div>
             <h3 className="text-lg font-bold text-elleo-dark">AI 면접 분석</h3>
+            {appConfig.analysis.provider === 'mock' && (
+              <span className="px-2 py-0.5 rounded text-xs font-semibold bg-amber-100 text-amber-800" title="AI 제공자가 설정되지 않아 예시 결과를 표시합니다">
+                데모 모드
+              </span>
+            )}
+            {analysis.status === 'streaming' && (
+              <span className="flex items-center gap-2 text-xs text-slate-500">
+                <span className="w-2 h-2 rounded-full bg-elleo-purple animate-pulse" />
+                분석 중 · {(liveEvaluation?.received ?? 0).toLocaleString()}자
+              </span>
+            )}
           </div>
-          <Button variant="secondary" onClick={handleAnalyze} isLoading={isAnalyzeLoading} className="text-elleo-dark border-elleo-purple hover:bg-elleo-purple-light">
-            {aiSummary ? '다시 분석하기' : 'AI 분석 생성'}
-          </Button>
+          {analysis.status === 'streaming' ? (
+            <Button variant="secondary" onClick={handleCancelAnalysis} className="text-red-600 border-red-200 hover:bg-red-50">
+              중단
+            </Button>
+          ) : (
+            <Button variant="secondary" onClick={handleAnalyze} className="text-elleo-dark border-elleo-purple hover:bg-elleo-purple-light">
+              {aiSummary ? '다시 분석하기' : 'AI 분석 생성'}
+            </Button>
+          )}
         </div>
 
-        {aiSummary ? (
+        {analysis.status === 'cancelled' && (
+          <div className="mb-4 px-4 py-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+            분석을 중단했습니다. 받은 부분까지만 표시되며 자동 저장되지 않았습니다.
+          </div>
+        )}
+        {analysis.status === 'failed' && (
+          <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+            {analysis.error}
+          </div>
+        )}
+
+        {liveEvaluation && analysis.status !== 'idle' && analysis.status !== 'completed' && Object.keys(liveEvaluation.evaluation).length > 0 ? (
+          <AiEvaluationPanel evaluation={liveEvaluation.evaluation} questionTexts={answerTexts} onGoToQuestion={handleGoToQuestion} />
+        ) : aiEvaluation ? (
+          <AiEvaluationPanel evaluation={aiEvaluation} questionTexts={answerTexts} onGoToQuestion={handleGoToQuestion} />
+        ) : aiSummary ? (
+          // Analysed before structured evaluations
           <div className="bg-slate-50 rounded-lg p-6 text-sm text-slate-700 border border-slate-200">
             {formatAISummary(aiSummary)}
           </div>
         ) : (
           <div className="text-center py-32 text-slate-400 text-sm border-2 border-dashed border-slate-200 rounded-lg">
-            모든 질문에 답한 후 AI 분석을 실행하여 요약을 확인하세요.
+            {analysis.status === 'streaming' ? 'AI가 답변을 분석하고 있습니다...' : '모든 질문에 답한 후 AI 분석을 실행하여 요약을 확인하세요.'}
           </div>
         )}
       </div>
 
+      {conflict && (
+        <ConflictMergeDialog
+          conflict={conflict}
+          stages={stages}
+          ratingScale={ratingScale}
+          onResolve={handleResolveConflict}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+
+      {finaliseMissing && (
+        <FinaliseDialog
+          missing={finaliseMissing}
+          stages={stages}
+          onGoTo={handleGoToMissing}
+          onOverride={handleFinalise}
+          onCancel={() => setFinaliseMissing(null)}
+        />
+      )}
+
+      {showHistory && (
+        <RevisionHistoryPanel
+          recordId={recordId}
+          stages={stages}
+          ratingScale={ratingScale}
+          onRestore={handleRestoreRevision}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showSuggestions && (
+        <FollowUpSuggestionPanel
+          context={suggestionContext}
+          onNoteChange={handleAnswerChange}
+          onClose={() => setShowSuggestions(false)}
+        />
+      )}
+
       {/* Global Bottom Actions (Backup) */}
       {/* Global Bottom Actions (Backup) */}
       {/* Global Header Actions via Portal */}
@@ -1,95 +1,222 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { createPortal } from 'react-dom';
-import { InterviewRecord } from '../types';
-import { getRecords, deleteRecord } from '../services/db';
+import { InterviewRecord, InterviewTemplate, InterviewType, RecordFilters, RecordQuery, RecordSortKey, SearchHit } from '../types';
+import { recordRepository } from '../services/recordRepository';
+import { getSearchKeywords, isInitialKeyword } from '../services/recordQuery';
+import { getAnswerTexts, getRecordTemplate, getRecordTemplateKey } from '../services/templateService';
+import { summarizeRatings } from '../services/ratings';
+import { getRecordStatus } from '../services/completion';
+import { DEFAULT_INTERVIEW_TYPE, INTERVIEW_TYPES, getInterviewType } from '../services/interviewTypes';
+import { AI_RECOMMENDATIONS, POSITIONS } from '../constants';
 import { Button } from './Button';
 import { Input } from './Input';
+import { SyncStatusBadge, useSyncStatuses } from './SyncStatusBadge';
+import { ExportMenu } from './ExportMenu';
+import { CsvImportDialog } from './CsvImportDialog';
 
-const getInitial = (name: string): string => {
-  if (!name) return '';
-  const char = name.charAt(0);
-  const code = char.charCodeAt(0);
-
-  // Korean Hangul Syllables
-  if (code >= 0xAC00 && code <= 0xD7A3) {
-    const initialOffset = Math.floor((code - 0xAC00) / 588);
-    const initials = [
-      'ㄱ', 'ㄲ', 'ㄴ', 'ㄷ', 'ㄸ', 'ㄹ', 'ㅁ', 'ㅂ', 'ㅃ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅉ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'
-    ];
-    const initial = initials[initialOffset];
-    const map: Record<string, string> = {
-      'ㄲ': 'ㄱ', 'ㄸ': 'ㄷ', 'ㅃ': 'ㅂ', 'ㅆ': 'ㅅ', 'ㅉ': 'ㅈ'
-    };
-    return map[initial] || initial;
-  }
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SORT_OPTIONS: { value: RecordSortKey; label: string }[] = [
+  { value: 'created', label: '작성순' },
+  { value: 'date', label: '면접일자' },
+  { value: 'name', label: '지원자명' },
+  { value: 'relevance', label: '관련도순' },
+  { value: 'score', label: '종합 점수' },
+];
 
-  // English
-  if (/[a-zA-Z]/.test(char)) {
-    return char.toUpperCase();
-  }
+const MAX_HITS_PER_CARD = 2;
 
-  return 'Other';
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Wrap every occurrence of the search terms in <mark>
+const highlight = (text: string, terms: string[]): React.ReactNode => {
+  if (terms.length === 0) return text;
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return text.split(pattern).map((part, index) =>
+    index % 2 === 1 ? <mark key={index} className="bg-yellow-100 text-inherit rounded-sm">{part}</mark> : part
+  );
+};
+
+// Every interview type other than the default one, which has its own button
+const OtherInterviewsMenu: React.FC<{ onNew: (type: InterviewType) => void }> = ({ onNew }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  return (
+    <div className="relative">
+      <Button onClick={() => setIsOpen(!isOpen)} className="shadow-sm bg-elleo-dark hover:bg-elleo-purple text-white hover:-translate-y-0.5 hover:shadow-lg transition-all duration-300 ease-out">
+        <svg className="w-5 h-5 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z" /></svg>
+        다른 인터뷰 작성
+        <svg className="w-4 h-4 ml-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" /></svg>
+      </Button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white border border-slate-200 rounded-xl shadow-xl p-2 z-20 animate-fadeIn">
+          {INTERVIEW_TYPES.filter(type => type.id !== DEFAULT_INTERVIEW_TYPE).map(type => (
+            <button
+              key={type.id}
+              onClick={() => {
+                setIsOpen(false);
+                onNew(type.id);
+              }}
+              className="w-full text-left px-3 py-2 rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              <span className="flex items-center gap-2 text-sm font-bold text-slate-800">
+                <span className={`px-2 py-0.5 rounded text-xs font-bold ${type.badgeClass}`}>{type.label}</span>
+                {type.name}
+              </span>
+              <span className="block text-xs text-slate-500 mt-0.5">{type.description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
 };
 
 interface InterviewListProps {
-  onNew: (type: 'STANDARD' | 'DEPTH') => void;
+  onNew: (type: InterviewType) => void;
   onEdit: (record: InterviewRecord) => void;
 }
 
 export const InterviewList: React.FC<InterviewListProps> = ({ onNew, onEdit }) => {
   const [records, setRecords] = useState<InterviewRecord[]>([]);
+  const [hits, setHits] = useState<Record<string, SearchHit[]>>({});
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [filters, setFilters] = useState<Omit<RecordFilters, 'search'>>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [sortBy, setSortBy] = useState<RecordSortKey>('created');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [portalTarget, setPortalTarget] = useState<HTMLElement | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  // Bumped to reload the first page without changing the query
+  const [reloadKey, setReloadKey] = useState(0);
+  const syncStatuses = useSyncStatuses();
+  // Templates of the records with search hits, by template key, to name the matched questions
+  const [hitTemplates, setHitTemplates] = useState<Record<string, InterviewTemplate>>({});
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Ignore responses to queries that have since been replaced
+  const requestIdRef = useRef(0);
 
   useEffect(() => {
     setPortalTarget(document.getElementById('header-actions'));
   }, []);
 
   useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedSearch(searchTerm), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [searchTerm]);
+
+  const buildQuery = (offset: number): RecordQuery => ({
+    filters: { ...filters, search: debouncedSearch },
+    sortBy,
+    sortDirection,
+    offset,
+  });
+
+  // Reload from the first page whenever the query changes
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
     const loadRecords = async () => {
       setLoading(true);
-      const data = await getRecords();
-      setRecords(data);
-      setLoading(false);
+      try {
+        const page = await recordRepository.getRecords(buildQuery(0));
+        if (requestId !== requestIdRef.current) return;
+        setRecords(page.records);
+        setHits(page.hits || {});
+        setTotal(page.total);
+        setNextOffset(page.nextOffset);
+        setError(null);
+      } catch (e) {
+        if (requestId !== requestIdRef.current) return;
+        console.error('Error loading records:', e);
+        setRecords([]);
+        setNextOffset(null);
+        setError('기록을 불러올 수 없습니다. 네트워크 연결을 확인해주세요.');
+      } finally {
+        if (requestId === requestIdRef.current) setLoading(false);
+      }
     };
     loadRecords();
-  }, []);
+  }, [debouncedSearch, filters, sortBy, sortDirection, reloadKey]);
+
+  const loadMore = useCallback(async () => {
+    if (loading || loadingMore || nextOffset === null) return;
+    const requestId = requestIdRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await recordRepository.getRecords(buildQuery(nextOffset));
+      if (requestId !== requestIdRef.current) return;
+      setRecords(prev => {
+        const seen = new Set(prev.map(r => r.id));
+        return [...prev, ...page.records.filter(r => !seen.has(r.id))];
+      });
+      setHits(prev => ({ ...prev, ...page.hits }));
+      setTotal(page.total);
+      setNextOffset(page.nextOffset);
+    } catch (e) {
+      // The sentinel stays in place, so scrolling back to it tries again
+      console.error('Error loading more records:', e);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [loading, loadingMore, nextOffset, debouncedSearch, filters, sortBy, sortDirection]);
+
+  // Infinite scroll: fetch the next page when the sentinel comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore]);
+
+  const updateFilter = (key: keyof Omit<RecordFilters, 'search'>, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  useEffect(() => {
+    const missing = records.filter(r => hits[r.id]?.length && !hitTemplates[getRecordTemplateKey(r)]);
+    if (missing.length === 0) return;
+
+    Promise.all(missing.map(async record => [getRecordTemplateKey(record), await getRecordTemplate(record)] as const))
+      .then(loaded => setHitTemplates(prev => ({ ...prev, ...Object.fromEntries(loaded) })))
+      .catch(error => console.error('Failed to load templates for search hits', error));
+  }, [records, hits]);
+
+  const questionTexts = useMemo(() => new Map(
+    Object.entries(hitTemplates).map(([key, template]: [string, InterviewTemplate]) => [
+      key,
+      getAnswerTexts(template.stages)
+    ])
+  ), [hitTemplates]);
+
+  const activeFilterCount = Object.values(filters).filter(Boolean).length;
+  const highlightTerms = getSearchKeywords(debouncedSearch).filter(keyword => !isInitialKeyword(keyword));
 
   const handleDelete = async (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (confirm('정말로 이 기록을 삭제하시겠습니까?')) {
       try {
-        await deleteRecord(id);
+        await recordRepository.deleteRecord(id);
         setRecords(prev => prev.filter(r => r.id !== id));
+        setTotal(prev => Math.max(0, prev - 1));
       } catch (error) {
         alert('삭제 중 오류가 발생했습니다.');
       }
     }
   };
 
-  const filteredRecords = records.filter(r => {
-    const term = searchTerm.toLowerCase();
-    // Smart Search: Split by space and check if EVERY keyword matches
-    const keywords = term.split(/\s+/).filter(Boolean);
-    if (keywords.length === 0) return true;
-
-    // Helper check function for a single keyword
-    const checkKeyword = (keyword: string) => {
-      // Check if keyword matches the initial (for single char search)
-      const initial = getInitial(r.basicInfo.name).toLowerCase();
-      const matchesInitial = keyword.length === 1 && initial === keyword;
-
-      return matchesInitial ||
-        r.basicInfo.name.toLowerCase().includes(keyword) ||
-        r.basicInfo.position.toLowerCase().includes(keyword) ||
-        (r.basicInfo.store && r.basicInfo.store.toLowerCase().includes(keyword)) ||
-        (r.basicInfo.date && r.basicInfo.date.includes(keyword)) || // Support date search
-        Object.values(r.answers).some((answer: string) => answer.toLowerCase().includes(keyword));
-    };
-
-    return keywords.every(checkKeyword);
-  });
+  const handleImported = (count: number) => {
+    setShowImport(false);
+    setReloadKey(prev => prev + 1);
+    alert(`${count}건의 면접 기록을 만들었습니다.`);
+  };
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
@@ -100,20 +227,17 @@ export const InterviewList: React.FC<InterviewListProps> = ({ onNew, onEdit }) =
 
       {portalTarget && createPortal(
         <div className="flex gap-2">
-          <Button onClick={() => onNew('STANDARD')} variant="purple" className="shadow-sm hover:bg-elleo-dark hover:text-white hover:-translate-y-0.5 hover:shadow-lg transition-all duration-300 ease-out">
+          <Button onClick={() => onNew(DEFAULT_INTERVIEW_TYPE)} variant="purple" className="shadow-sm hover:bg-elleo-dark hover:text-white hover:-translate-y-0.5 hover:shadow-lg transition-all duration-300 ease-out">
             <svg className="w-5 h-5 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4" /></svg>
             새 인터뷰 작성
           </Button>
-          <Button onClick={() => onNew('DEPTH')} className="shadow-sm bg-elleo-dark hover:bg-elleo-purple text-white hover:-translate-y-0.5 hover:shadow-lg transition-all duration-300 ease-out">
-            <svg className="w-5 h-5 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z" /></svg>
-            심층 인터뷰 작성
-          </Button>
+          <OtherInterviewsMenu onNew={onNew} />
         </div>,
         portalTarget
       )}
 
       {/* Search Input */}
-      <div className="relative mb-6">
+      <div className="relative mb-3">
         <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
           <svg className="h-5 w-5 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
@@ -122,18 +246,136 @@ export const InterviewList: React.FC<InterviewListProps> = ({ onNew, onEdit }) =
         <input
           type="text"
           className="block w-full pl-10 pr-3 py-3 bg-white border-[3px] border-elleo-purple rounded-xl leading-5 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-elleo-purple/20 sm:text-sm shadow-sm transition-shadow"
-          placeholder="지원자명, 포지션, 매장, 내용 검색... (초성 검색 가능: ㄱ, ㄴ, A...)"
+          placeholder="지원자명, 포지션, 매장, 날짜, 답변 내용 검색... (초성 검색 가능: ㄱ, ㄴ, A...)"
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.target.value)}
         />
       </div>
 
+      {/* Filters & Sort */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg border text-sm font-medium transition-colors ${showFilters || activeFilterCount > 0
+              ? 'bg-elleo-purple-light border-elleo-purple text-elleo-dark'
+              : 'bg-white border-slate-200 text-slate-500 hover:border-slate-300'}`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" /></svg>
+            필터{activeFilterCount > 0 && ` (${activeFilterCount})`}
+          </button>
+          {!loading && !error && <span className="text-sm text-slate-400">총 {total}건</span>}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowImport(true)}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-sm font-medium text-slate-600 hover:border-slate-300"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+            가져오기
+          </button>
+          <ExportMenu query={buildQuery(0)} />
+          <select
+            value={sortBy}
+            onChange={e => setSortBy(e.target.value as RecordSortKey)}
+            className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-sm text-slate-600 focus:outline-none focus:ring-2 focus:ring-elleo-purple/20"
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')}
+            className="px-2.5 py-1.5 bg-white border border-slate-200 rounded-lg text-sm text-slate-600 hover:border-slate-300"
+            title={sortDirection === 'asc' ? '오름차순' : '내림차순'}
+          >
+            {sortDirection === 'asc' ? '↑' : '↓'}
+          </button>
+        </div>
+      </div>
+
+      {showFilters && (
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-8 gap-3 mb-6 p-4 bg-white border border-slate-200 rounded-xl animate-fadeIn">
+          <Input label="매장" value={filters.store || ''} onChange={e => updateFilter('store', e.target.value)} />
+          <div className="flex flex-col gap-1 w-full">
+            <label className="text-sm font-bold text-slate-700">포지션</label>
+            <select
+              value={filters.position || ''}
+              onChange={e => updateFilter('position', e.target.value)}
+              className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-elleo-purple focus:border-transparent h-[42px]"
+            >
+              <option value="">전체</option>
+              {POSITIONS.map(position => (
+                <option key={position} value={position}>{position}</option>
+              ))}
+            </select>
+          </div>
+          <Input label="면접관" value={filters.interviewer || ''} onChange={e => updateFilter('interviewer', e.target.value)} />
+          <div className="flex flex-col gap-1 w-full">
+            <label className="text-sm font-bold text-slate-700">인터뷰 유형</label>
+            <select
+              value={filters.interviewType || ''}
+              onChange={e => updateFilter('interviewType', e.target.value)}
+              className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-elleo-purple focus:border-transparent h-[42px]"
+            >
+              <option value="">전체</option>
+              {INTERVIEW_TYPES.map(type => (
+                <option key={type.id} value={type.id}>{type.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col gap-1 w-full">
+            <label className="text-sm font-bold text-slate-700">작성 상태</label>
+            <select
+              value={filters.status || ''}
+              onChange={e => updateFilter('status', e.target.value)}
+              className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-elleo-purple focus:border-transparent h-[42px]"
+            >
+              <option value="">전체</option>
+              <option value="draft">작성 중</option>
+              <option value="completed">작성 완료</option>
+            </select>
+          </div>
+          <div className="flex flex-col gap-1 w-full">
+            <label className="text-sm font-bold text-slate-700">AI 추천</label>
+            <select
+              value={filters.aiRecommendation || ''}
+              onChange={e => updateFilter('aiRecommendation', e.target.value)}
+              className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-elleo-purple focus:border-transparent h-[42px]"
+            >
+              <option value="">전체</option>
+              {AI_RECOMMENDATIONS.map(r => (
+                <option key={r.value} value={r.value}>{r.value}</option>
+              ))}
+            </select>
+          </div>
+          <Input label="면접일 (부터)" type="date" value={filters.dateFrom || ''} onChange={e => updateFilter('dateFrom', e.target.value)} />
+          <Input label="면접일 (까지)" type="date" value={filters.dateTo || ''} onChange={e => updateFilter('dateTo', e.target.value)} />
+          {activeFilterCount > 0 && (
+            <div className="col-span-full flex justify-end">
+              <Button variant="ghost" onClick={() => setFilters({})} className="text-xs px-2 py-1">필터 초기화</Button>
+            </div>
+          )}
+        </div>
+      )}
+      {!showFilters && <div className="mb-3" />}
+
       {loading ? (
         <div className="flex flex-col items-center justify-center py-32 bg-white rounded-xl border border-slate-200 shadow-sm">
           <div className="w-12 h-12 border-4 border-elleo-purple/30 border-t-elleo-purple rounded-full animate-spin mb-4"></div>
           <p className="text-slate-500 font-medium">기록을 불러오는 중입니다...</p>
         </div>
-      ) : filteredRecords.length === 0 ? (
+      ) : error ? (
+        <div className="text-center py-20 bg-white rounded-xl border border-slate-200 shadow-sm">
+          <p className="text-slate-500">{error}</p>
+          <button
+            onClick={() => setReloadKey(prev => prev + 1)}
+            className="mt-3 text-sm font-bold text-elleo-purple hover:underline"
+          >
+            다시 시도
+          </button>
+        </div>
+      ) : records.length === 0 ? (
         <div className="text-center py-20 bg-white rounded-xl border border-dashed border-slate-300">
           <svg className="mx-auto h-12 w-12 text-slate-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
@@ -143,8 +385,9 @@ export const InterviewList: React.FC<InterviewListProps> = ({ onNew, onEdit }) =
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
-          {filteredRecords.map(record => {
-            const isDeep = record.basicInfo.interviewType === 'DEPTH';
+          {records.map(record => {
+            const interviewType = getInterviewType(record.basicInfo.interviewType);
+            const ratingSummary = summarizeRatings(record);
             return (
               <div
                 key={record.id}
@@ -158,9 +401,19 @@ export const InterviewList: React.FC<InterviewListProps> = ({ onNew, onEdit }) =
                       <span className="inline-block px-2 py-0.5 rounded text-xs font-medium border border-elleo-purple text-elleo-purple">
                         {record.basicInfo.position || '지원 포지션'}
                       </span>
-                      {isDeep && (
-                        <span className="px-2 py-0.5 rounded text-xs font-bold bg-elleo-purple text-white">
-                          심층
+                      {interviewType.id !== DEFAULT_INTERVIEW_TYPE && (
+                        <span className={`px-2 py-0.5 rounded text-xs font-bold ${interviewType.badgeClass}`}>
+                          {interviewType.label}
+                        </span>
+                      )}
+                      {getRecordStatus(record) === 'draft' && (
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-amber-50 text-amber-700 border border-amber-200">
+                          작성 중
+                        </span>
+                      )}
+                      {record.anonymisedAt && (
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-slate-100 text-slate-500">
+                          익명 처리됨
                         </span>
                       )}
                     </div>
@@ -184,15 +437,63 @@ export const InterviewList: React.FC<InterviewListProps> = ({ onNew, onEdit }) =
                   </div>
                 </div>
 
+                {/* Answers that matched the search */}
+                {hits[record.id]?.length > 0 && (
+                  <div className="space-y-2 mb-4">
+                    {hits[record.id].slice(0, MAX_HITS_PER_CARD).map(hit => (
+                      <div key={hit.questionId} className="text-xs bg-slate-50 rounded-md p-2">
+                        <p className="font-semibold text-slate-500 truncate">{questionTexts.get(getRecordTemplateKey(record))?.get(hit.questionId) || hit.questionId}</p>
+                        <p className="text-slate-600 mt-0.5 line-clamp-3">{highlight(hit.snippet, highlightTerms)}</p>
+                      </div>
+                    ))}
+                    {hits[record.id].length > MAX_HITS_PER_CARD && (
+                      <p className="text-xs text-slate-400">외 {hits[record.id].length - MAX_HITS_PER_CARD}개 답변 일치</p>
+                    )}
+                  </div>
+                )}
+
                 <div className="pt-3 border-t border-slate-100 flex justify-between items-center">
-                  <span className="text-xs text-slate-400">
-                    답변 {Object.keys(record.answers).filter(k =>
-                      record.answers[k] &&
-                      !k.startsWith('notice-') &&
-                      !k.startsWith('consent-')
-                    ).length}개
-                  </span>
-                  {record.aiSummary && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-slate-400">
+                      답변 {Object.keys(record.answers).filter(k =>
+                        record.answers[k] &&
+                        !k.startsWith('notice-') &&
+                        !k.startsWith('consent-') &&
+                        !k.startsWith('followup-')
+                      ).length}개
+                    </span>
+                    {record.overallScore !== undefined && (
+                      <span
+                        className={`text-xs font-bold px-1.5 py-0.5 rounded ${record.passed === false
+                          ? 'bg-red-50 text-red-600'
+                          : record.passed ? 'bg-green-50 text-green-700' : 'bg-slate-100 text-slate-600'}`}
+                        title={record.passed === undefined ? '종합 점수' : record.passed ? '합격 기준 충족' : '합격 기준 미달'}
+                      >
+                        {record.overallScore.toFixed(1)}점
+                      </span>
+                    )}
+                    {ratingSummary.average !== null && (
+                      <span className="text-xs font-semibold text-slate-500" title={`${ratingSummary.scored}개 체크포인트 평가`}>
+                        ★ {ratingSummary.average.toFixed(1)}
+                      </span>
+                    )}
+                    {ratingSummary.redFlags > 0 && (
+                      <span className="text-xs font-bold text-red-600 bg-red-50 px-1.5 py-0.5 rounded" title="레드 플래그">
+                        🚩 {ratingSummary.redFlags}
+                      </span>
+                    )}
+                    {/* Records that never went through this device's queue came straight from the server */}
+                    <SyncStatusBadge status={syncStatuses[record.id] ?? 'synced'} />
+                  </div>
+                  {record.aiEvaluation ? (
+                    <span
+                      className={`flex items-center gap-1 text-xs font-semibold px-2 py-1 rounded border ${AI_RECOMMENDATIONS.find(r => r.value === record.aiEvaluation!.recommendation)?.className || ''}`}
+                      title={`AI 확신도 ${record.aiEvaluation.confidence}%`}
+                    >
+                      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
+                      AI {record.aiEvaluation.recommendation}
+                    </span>
+                  ) : record.aiSummary && (
                     <span className="flex items-center gap-1 text-xs font-semibold text-elleo-dark bg-elleo-purple-light px-2 py-1 rounded">
                       <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
                       AI 분석됨
@@ -205,6 +506,17 @@ export const InterviewList: React.FC<InterviewListProps> = ({ onNew, onEdit }) =
         </div>
       )
       }
+
+      {/* Infinite scroll sentinel & fallback */}
+      <div ref={sentinelRef} className="flex justify-center py-8">
+        {loadingMore ? (
+          <div className="w-8 h-8 border-4 border-elleo-purple/30 border-t-elleo-purple rounded-full animate-spin"></div>
+        ) : !loading && nextOffset !== null && (
+          <Button variant="secondary" onClick={loadMore}>더 보기</Button>
+        )}
+      </div>
+
+      {showImport && <CsvImportDialog onClose={() => setShowImport(false)} onImported={handleImported} />}
     </div >
   );
 };
\ No newline at end of file
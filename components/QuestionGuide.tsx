@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Question } from '../types';
+import { getFollowUpAnswerKey } from '../services/templateService';
+
+interface QuestionGuideProps {
+  question: Question;
+  answers: Record<string, string>;
+  translate: (text: string) => string;
+  onAnswerChange: (key: string, value: string) => void;
+}
+
+// Good/bad answer guidance and scripted follow-ups, folded away until the interviewer needs them
+export const QuestionGuide: React.FC<QuestionGuideProps> = ({ question, answers, translate, onAnswerChange }) => {
+  const followUps = question.followUps || [];
+  const hasGuidance = !!question.goodSigns?.length || !!question.badSigns?.length;
+  // Follow-ups that already have notes are shown straight away
+  const [isOpen, setIsOpen] = useState(() => followUps.some(f => answers[getFollowUpAnswerKey(f.id)]?.trim()));
+
+  if (!hasGuidance && followUps.length === 0) return null;
+
+  return (
+    <div className="mt-3" onClick={e => e.stopPropagation()}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-xs font-bold text-elleo-purple hover:underline"
+      >
+        {isOpen ? '▾' : '▸'} 평가 가이드{followUps.length > 0 && ` · 꼬리 질문 ${followUps.length}개`}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-3 animate-fadeIn">
+          {hasGuidance && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {!!question.goodSigns?.length && (
+                <div className="bg-green-50 border border-green-200 rounded-md p-3">
+                  <p className="text-[11px] font-bold text-green-700 mb-1">좋은 답변</p>
+                  <ul className="list-disc pl-4 space-y-0.5 text-xs text-green-900">
+                    {question.goodSigns.map((sign, idx) => <li key={idx}>{sign}</li>)}
+                  </ul>
+                </div>
+              )}
+              {!!question.badSigns?.length && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                  <p className="text-[11px] font-bold text-red-700 mb-1">주의할 답변</p>
+                  <ul className="list-disc pl-4 space-y-0.5 text-xs text-red-900">
+                    {question.badSigns.map((sign, idx) => <li key={idx}>{sign}</li>)}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          {followUps.map(followUp => {
+            const key = getFollowUpAnswerKey(followUp.id);
+            return (
+              <div key={followUp.id} className="pl-3 border-l-2 border-elleo-purple/30">
+                <p className="text-sm font-medium text-slate-700">↳ {translate(followUp.text)}</p>
+                {translate(followUp.text) !== followUp.text && <p className="text-xs text-slate-400 mt-0.5">{followUp.text}</p>}
+                <textarea
+                  id={`textarea-${key}`}
+                  className="mt-1 w-full p-2 bg-white border border-slate-300 rounded-md focus:ring-0 focus:border-elleo-purple min-h-[60px] text-sm resize-y placeholder-slate-400"
+                  placeholder="꼬리 질문에 대한 답변 메모"
+                  value={answers[key] || ''}
+                  autoComplete="off"
+                  spellCheck={false}
+                  onChange={e => onAnswerChange(key, e.target.value)}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
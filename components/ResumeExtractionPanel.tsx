@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { BasicInfo, CandidateProfile, WorkHistoryEntry } from '../types';
+import { RESUME_FIELDS, ResumeExtraction, ResumeField } from '../services/resumeExtraction';
+
+export const WorkHistoryList: React.FC<{ entries: WorkHistoryEntry[] }> = ({ entries }) => (
+  <ul className="space-y-2">
+    {entries.map((entry, idx) => (
+      <li key={idx} className="text-sm">
+        <div className="flex flex-wrap items-baseline gap-x-2">
+          <span className="font-bold text-elleo-dark">{entry.employer || '(직장명 없음)'}</span>
+          {entry.role && <span className="text-slate-600">{entry.role}</span>}
+          {entry.period && <span className="text-xs text-slate-400">{entry.period}</span>}
+        </div>
+        {entry.description && <p className="text-xs text-slate-500 mt-0.5">{entry.description}</p>}
+      </li>
+    ))}
+  </ul>
+);
+
+// Shown above the questions of stages with showWorkHistory
+export const WorkHistoryCard: React.FC<{ profile: CandidateProfile }> = ({ profile }) => (
+  <div className="bg-slate-50 border border-slate-200 rounded-lg p-5">
+    <div className="flex items-center justify-between mb-3">
+      <h4 className="text-sm font-bold text-elleo-dark">이력서 경력</h4>
+      <span className="text-[11px] text-slate-400">{profile.sourceFileName}</span>
+    </div>
+    <WorkHistoryList entries={profile.workHistory} />
+  </div>
+);
+
+interface ResumeExtractionPanelProps {
+  fileName: string;
+  extraction: ResumeExtraction;
+  basicInfo: BasicInfo;
+  onApplyField: (field: ResumeField, value: string) => void;
+  onApplyWorkHistory: (workHistory: WorkHistoryEntry[]) => void;
+  onClose: () => void;
+}
+
+// Values read from the resume are only proposals; each one is applied or skipped
+// by the interviewer. Fields that already hold the proposed value are not shown.
+export const ResumeExtractionPanel: React.FC<ResumeExtractionPanelProps> = ({
+  fileName,
+  extraction,
+  basicInfo,
+  onApplyField,
+  onApplyWorkHistory,
+  onClose,
+}) => {
+  const [skipped, setSkipped] = useState<Set<ResumeField>>(new Set());
+  const [historyHandled, setHistoryHandled] = useState(false);
+
+  const pendingFields = RESUME_FIELDS.filter(({ key }) => {
+    const value = extraction.fields[key];
+    return value && value !== basicInfo[key] && !skipped.has(key);
+  });
+  const showHistory = !historyHandled && extraction.workHistory.length > 0;
+  const skip = (field: ResumeField) => setSkipped(prev => new Set(prev).add(field));
+
+  return (
+    <div className="mt-3 border border-elleo-purple/30 bg-[#f8f7ff] rounded-lg p-4 space-y-4 animate-fadeIn">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-bold text-elleo-dark">
+          이력서에서 찾은 정보 <span className="font-normal text-xs text-slate-400">· {fileName}</span>
+        </p>
+        <button onClick={onClose} className="text-xs text-slate-400 hover:text-slate-600">닫기</button>
+      </div>
+
+      {pendingFields.length === 0 && !showHistory && (
+        <p className="text-xs text-slate-500">확인할 항목이 없습니다.</p>
+      )}
+
+      {pendingFields.length > 0 && (
+        <div className="space-y-2">
+          {pendingFields.map(({ key, label }) => (
+            <div key={key} className="flex items-center gap-3 bg-white border border-slate-200 rounded-md px-3 py-2">
+              <span className="w-20 shrink-0 text-xs font-bold text-slate-500">{label}</span>
+              <span className="flex-1 min-w-0 text-sm">
+                {basicInfo[key] && <span className="text-slate-400 line-through mr-2">{basicInfo[key]}</span>}
+                <span className="font-medium text-elleo-dark">{extraction.fields[key]}</span>
+              </span>
+              <button
+                onClick={() => onApplyField(key, extraction.fields[key]!)}
+                className="px-2 py-1 text-xs font-bold rounded bg-elleo-purple text-white hover:opacity-90"
+              >
+                적용
+              </button>
+              <button onClick={() => skip(key)} className="px-2 py-1 text-xs font-bold rounded border border-slate-200 text-slate-500 hover:bg-slate-50">
+                무시
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showHistory && (
+        <div className="bg-white border border-slate-200 rounded-md p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-bold text-slate-500">경력 사항 ({extraction.workHistory.length})</span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => {
+                  onApplyWorkHistory(extraction.workHistory);
+                  setHistoryHandled(true);
+                }}
+                className="px-2 py-1 text-xs font-bold rounded bg-elleo-purple text-white hover:opacity-90"
+              >
+                경력 저장
+              </button>
+              <button
+                onClick={() => setHistoryHandled(true)}
+                className="px-2 py-1 text-xs font-bold rounded border border-slate-200 text-slate-500 hover:bg-slate-50"
+              >
+                무시
+              </button>
+            </div>
+          </div>
+          <WorkHistoryList entries={extraction.workHistory} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react';
+import { CandidateOutcome, PurgeLogEntry, RetentionPolicy } from '../types';
+import { CANDIDATE_OUTCOMES } from '../constants';
+import { deletePurgedResumes, getPurgeLog, getRetentionPolicies, runRetentionJob, updateRetentionPolicy } from '../services/retentionService';
+import { Button } from './Button';
+
+const FIELD_LABELS: Record<string, string> = {
+  name: '이름',
+  email: '이메일',
+  mobile: '연락처',
+  birthDate: '생년월일',
+  visaStatus: '비자 상태',
+  visaExpiryDate: '비자 만료일',
+  candidateProfile: '이력서 경력',
+};
+
+const outcomeLabel = (outcome: CandidateOutcome) =>
+  CANDIDATE_OUTCOMES.find(o => o.value === outcome)?.label || outcome;
+
+export const RetentionReport: React.FC = () => {
+  const [policies, setPolicies] = useState<RetentionPolicy[]>([]);
+  const [purgeLog, setPurgeLog] = useState<PurgeLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const loadReport = async () => {
+    setLoading(true);
+    try {
+      // Finish removing resume files released by scheduled runs
+      await deletePurgedResumes();
+      const [policyData, logData] = await Promise.all([getRetentionPolicies(), getPurgeLog()]);
+      setPolicies(policyData);
+      setPurgeLog(logData);
+    } catch (error) {
+      alert('보관 정책을 불러올 수 없습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReport();
+  }, []);
+
+  const handlePolicyChange = async (outcome: CandidateOutcome, value: string) => {
+    const retainMonths = value ? Math.max(1, parseInt(value, 10)) : null;
+    setPolicies(prev => {
+      const others = prev.filter(p => p.outcome !== outcome);
+      return [...others, { outcome, retainMonths }];
+    });
+    try {
+      await updateRetentionPolicy(outcome, retainMonths);
+    } catch (error) {
+      alert('정책 저장에 실패했습니다.');
+    }
+  };
+
+  const handleRunNow = async () => {
+    if (!confirm('보관 기간이 지난 지원자의 개인정보를 지금 익명 처리하시겠습니까? 되돌릴 수 없습니다.')) return;
+    setIsRunning(true);
+    try {
+      const purged = await runRetentionJob();
+      alert(`${purged.length}건의 기록을 익명 처리했습니다.`);
+      await loadReport();
+    } catch (error: any) {
+      alert(`익명 처리 실패: ${error?.message || ''}`);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-8">
+      <div className="flex items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-elleo-dark">개인정보 보관 정책</h1>
+          <p className="text-slate-500 mt-1">면접일 기준 보관 기간이 지나면 연락처·비자 정보와 이력서를 삭제하고, 답변은 분석용으로 익명 보관합니다.</p>
+        </div>
+        <Button onClick={handleRunNow} isLoading={isRunning} variant="danger">지금 실행</Button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-20">
+          <div className="w-12 h-12 border-4 border-elleo-purple/30 border-t-elleo-purple rounded-full animate-spin"></div>
+        </div>
+      ) : (
+        <>
+          {/* Policies */}
+          <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+            <h2 className="text-lg font-bold text-elleo-dark mb-4">결과별 보관 기간</h2>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              {CANDIDATE_OUTCOMES.map(({ value, label }) => {
+                const policy = policies.find(p => p.outcome === value);
+                return (
+                  <div key={value} className="flex flex-col gap-1">
+                    <label className="text-sm font-bold text-slate-700">{label}</label>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min={1}
+                        placeholder="무기한"
+                        value={policy?.retainMonths ?? ''}
+                        onChange={e => handlePolicyChange(value, e.target.value)}
+                        className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-elleo-purple focus:border-transparent"
+                      />
+                      <span className="text-sm text-slate-500 whitespace-nowrap">개월</span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Purge report */}
+          <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-200">
+              <h2 className="text-lg font-bold text-elleo-dark">익명 처리 내역 ({purgeLog.length}건)</h2>
+            </div>
+            {purgeLog.length === 0 ? (
+              <p className="text-center py-12 text-slate-400 text-sm">아직 익명 처리된 기록이 없습니다.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-slate-500 text-left">
+                  <tr>
+                    <th className="px-6 py-3 font-semibold">처리일시</th>
+                    <th className="px-6 py-3 font-semibold">기록 ID</th>
+                    <th className="px-6 py-3 font-semibold">결과</th>
+                    <th className="px-6 py-3 font-semibold">보관 기간</th>
+                    <th className="px-6 py-3 font-semibold">삭제 항목</th>
+                    <th className="px-6 py-3 font-semibold">이력서</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {purgeLog.map(entry => (
+                    <tr key={entry.id}>
+                      <td className="px-6 py-3 text-slate-600">{new Date(entry.purgedAt).toLocaleString()}</td>
+                      <td className="px-6 py-3 font-mono text-xs text-slate-400">{entry.recordId.slice(0, 8)}</td>
+                      <td className="px-6 py-3">{outcomeLabel(entry.outcome)}</td>
+                      <td className="px-6 py-3">{entry.retainMonths}개월</td>
+                      <td className="px-6 py-3 text-slate-600">{entry.purgedFields.map(f => FIELD_LABELS[f] || f).join(', ')}</td>
+                      <td className="px-6 py-3 text-slate-600">
+                        {!entry.resumePath ? '-' : entry.resumeDeletedAt ? '삭제됨' : '삭제 대기'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
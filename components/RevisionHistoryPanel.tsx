@@ -0,0 +1,197 @@
+import React, { useState, useEffect } from 'react';
+import { RatingScale, RecordRevision, Stage } from '../types';
+import { recordRepository } from '../services/recordRepository';
+import { getAnswerTexts } from '../services/templateService';
+import { formatQuestionRatings } from '../services/ratings';
+import { Button } from './Button';
+
+type DiffPart = { type: 'same' | 'added' | 'removed'; text: string };
+
+// Word-level diff (LCS over whitespace-separated tokens)
+const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+};
+
+// Readable label for an answer key: question text, or a notice/consent description
+const describeKey = (key: string, questionTexts: Map<string, string>): string => {
+  if (questionTexts.has(key)) return questionTexts.get(key)!;
+  if (key.startsWith('consent-')) return '최종 동의 확인';
+  if (key.startsWith('notice-')) return '고지사항 확인';
+  return key;
+};
+
+interface RevisionHistoryPanelProps {
+  recordId: string;
+  stages: Stage[];
+  ratingScale: RatingScale;
+  onRestore: (revision: RecordRevision) => void;
+  onClose: () => void;
+}
+
+export const RevisionHistoryPanel: React.FC<RevisionHistoryPanelProps> = ({ recordId, stages, ratingScale, onRestore, onClose }) => {
+  const [revisions, setRevisions] = useState<RecordRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+
+  useEffect(() => {
+    const loadRevisions = async () => {
+      setLoading(true);
+      try {
+        const data = await recordRepository.getRevisions(recordId);
+        setRevisions(data);
+        setSelectedRevision(data[0]?.revision ?? null);
+        setError(null);
+      } catch (e) {
+        setError('변경 이력을 불러올 수 없습니다. 네트워크 연결을 확인해주세요.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadRevisions();
+  }, [recordId]);
+
+  const questionTexts = getAnswerTexts(stages);
+
+  const selected = revisions.find(r => r.revision === selectedRevision);
+  // Revisions are newest first, so the one before the selection is the next entry
+  const previous = selected ? revisions.find(r => r.revision < selected.revision) : undefined;
+
+  const handleRestore = () => {
+    if (!selected) return;
+    if (confirm(`버전 ${selected.revision}의 내용으로 되돌리시겠습니까? 저장하면 새로운 버전으로 기록됩니다.`)) {
+      onRestore(selected);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end bg-slate-900/30" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl h-full bg-white shadow-2xl flex flex-col animate-fadeIn"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <h3 className="text-lg font-bold text-elleo-dark">변경 이력</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <div className="w-10 h-10 border-4 border-elleo-purple/30 border-t-elleo-purple rounded-full animate-spin"></div>
+          </div>
+        ) : error ? (
+          <div className="flex-1 flex items-center justify-center text-sm text-slate-500 px-6 text-center">{error}</div>
+        ) : revisions.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-sm text-slate-400">저장된 이력이 없습니다.</div>
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            {/* Revision list */}
+            <div className="w-56 border-r border-slate-200 overflow-y-auto">
+              {revisions.map(rev => (
+                <button
+                  key={rev.id}
+                  onClick={() => setSelectedRevision(rev.revision)}
+                  className={`w-full text-left px-4 py-3 border-b border-slate-100 transition-colors ${rev.revision === selectedRevision ? 'bg-elleo-purple-light' : 'hover:bg-slate-50'}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-bold text-elleo-dark">v{rev.revision}</span>
+                    <span className="text-[11px] text-slate-400">변경 {rev.changedQuestionIds.length}개</span>
+                  </div>
+                  <div className="text-xs text-slate-500 truncate">{rev.author}</div>
+                  <div className="text-[11px] text-slate-400">{new Date(rev.createdAt).toLocaleString()}</div>
+                </button>
+              ))}
+            </div>
+
+            {/* Per-question diff against the previous revision */}
+            <div className="flex-1 overflow-y-auto p-6 space-y-4">
+              {selected && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-slate-500">
+                      {previous ? `v${previous.revision} → v${selected.revision}` : '최초 저장'}
+                    </p>
+                    {selected.revision !== revisions[0].revision && (
+                      <Button variant="secondary" onClick={handleRestore} className="text-xs px-3 py-1.5">
+                        이 버전으로 복원
+                      </Button>
+                    )}
+                  </div>
+
+                  {selected.changedQuestionIds.length === 0 && (
+                    <p className="text-sm text-slate-400">답변 변경 없이 AI 분석만 갱신되었습니다.</p>
+                  )}
+
+                  {selected.changedQuestionIds.map(key => {
+                    const ratingsBefore = formatQuestionRatings(previous?.ratings?.[key], ratingScale);
+                    const ratingsAfter = formatQuestionRatings(selected.ratings?.[key], ratingScale);
+                    return (
+                      <div key={key} className="border border-slate-200 rounded-lg p-4">
+                        <p className="text-sm font-medium text-elleo-dark mb-2">{describeKey(key, questionTexts)}</p>
+                        {selected.ratings && ratingsBefore !== ratingsAfter && (
+                          <p className="text-xs text-slate-500 mb-2">
+                            평가: <span className="text-red-700 line-through">{ratingsBefore || '없음'}</span>
+                            {' → '}
+                            <span className="text-emerald-800">{ratingsAfter || '없음'}</span>
+                          </p>
+                        )}
+                        <p className="text-sm leading-relaxed whitespace-pre-wrap">
+                          {diffWords(previous?.answers[key] || '', selected.answers[key] || '').map((part, idx) => (
+                            <span
+                              key={idx}
+                              className={part.type === 'added'
+                                ? 'bg-emerald-100 text-emerald-800'
+                                : part.type === 'removed'
+                                  ? 'bg-red-100 text-red-700 line-through'
+                                  : 'text-slate-600'}
+                            >
+                              {part.text}
+                            </span>
+                          ))}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
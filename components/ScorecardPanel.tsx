@@ -0,0 +1,54 @@
+import React from 'react';
+import { MIN_SCORED_COVERAGE, Scorecard } from '../services/scorecard';
+
+interface ScorecardPanelProps {
+  scorecard: Scorecard;
+  position: string;
+}
+
+const formatScore = (score: number | null) => (score === null ? '-' : score.toFixed(1));
+
+export const ScorecardPanel: React.FC<ScorecardPanelProps> = ({ scorecard, position }) => {
+  const { stages, overall, coverage, threshold, passed } = scorecard;
+  const weightedStages = stages.filter(stage => stage.weight > 0);
+
+  return (
+    <div className="mt-8 bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-lg font-bold text-elleo-dark">스코어카드</h3>
+        <div className="flex items-center gap-3">
+          <span className="text-3xl font-bold text-elleo-dark">{formatScore(overall)}</span>
+          <span className="text-sm text-slate-400">/ 100</span>
+          {passed !== null && (
+            <span className={`px-2.5 py-1 rounded-md text-xs font-bold ${passed ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-600'}`}>
+              {passed ? '합격 기준 충족' : '합격 기준 미달'}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-slate-500 mb-4">
+        {threshold !== null
+          ? `${position || '지원 포지션'} 합격 기준: ${threshold}점 이상`
+          : '이 포지션에 설정된 합격 기준이 없습니다.'}
+        {` 평가 진행률 ${Math.round(coverage * 100)}%.`}
+        {overall === null && ` 문항의 ${MIN_SCORED_COVERAGE * 100}% 이상을 평가하면 종합 점수가 계산됩니다.`}
+      </p>
+
+      <div className="space-y-2">
+        {weightedStages.map(stage => (
+          <div key={stage.stageId} className="flex items-center gap-3 text-sm">
+            <span className="w-40 truncate text-slate-600" title={stage.title}>{stage.title}</span>
+            <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+              <div className="h-full bg-elleo-purple rounded-full transition-all" style={{ width: `${stage.score ?? 0}%` }} />
+            </div>
+            <span className="w-12 text-right font-semibold text-slate-700">{formatScore(stage.score)}</span>
+            <span className="w-28 text-right text-xs text-slate-400">
+              가중치 {stage.weight} · {stage.ratedQuestions}/{stage.totalQuestions}문항
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
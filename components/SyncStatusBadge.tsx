@@ -0,0 +1,35 @@
+import React, { useState, useEffect } from 'react';
+import { SyncStatus, SyncStatusMap } from '../types';
+import { recordRepository } from '../services/recordRepository';
+
+export const useSyncStatuses = (): SyncStatusMap => {
+  const [statuses, setStatuses] = useState<SyncStatusMap>({});
+
+  useEffect(() => recordRepository.subscribeSyncStatus(setStatuses), []);
+
+  return statuses;
+};
+
+const STATUS_STYLES: Record<SyncStatus, { label: string; className: string }> = {
+  pending: { label: '동기화 대기', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  synced: { label: '동기화됨', className: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  failed: { label: '동기화 실패', className: 'bg-red-50 text-red-600 border-red-200' },
+  conflict: { label: '수정 충돌', className: 'bg-orange-50 text-orange-700 border-orange-300' },
+};
+
+interface SyncStatusBadgeProps {
+  status?: SyncStatus;
+  className?: string;
+}
+
+export const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ status, className = '' }) => {
+  if (!status) return null;
+  const style = STATUS_STYLES[status];
+
+  return (
+    <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium border ${style.className} ${className}`}>
+      <span className={`w-1.5 h-1.5 rounded-full bg-current ${status === 'pending' ? 'animate-pulse' : ''}`}></span>
+      {style.label}
+    </span>
+  );
+};
@@ -0,0 +1,620 @@
+import React, { useEffect, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { FollowUp, InterviewLanguage, InterviewTemplate, InterviewType, PassThreshold, Question, Section, Stage } from '../types';
+import { useTemplates } from '../contexts/TemplateContext';
+import { DEFAULT_RATING_SCALE, INTERVIEW_LANGUAGES, POSITIONS, RATING_SCALE_OPTIONS } from '../constants';
+import { TemplateConditionError, TemplateVersionConflictError, getActiveStages, getTemplatePositions, getTemplateQuestions, saveTemplate } from '../services/templateService';
+import { DEFAULT_INTERVIEW_TYPE } from '../services/interviewTypes';
+import { getConditionError, validateTemplateConditions } from '../services/conditionExpression';
+import { pruneTranslations } from '../services/templateTranslations';
+import { Button } from './Button';
+import { Input } from './Input';
+import { TemplateTranslationEditor } from './TemplateTranslationEditor';
+
+const newId = (prefix: string) => `${prefix}_${uuidv4().slice(0, 8)}`;
+
+const moveItem = <T,>(items: T[], index: number, delta: number): T[] => {
+  const target = index + delta;
+  if (target < 0 || target >= items.length) return items;
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+const replaceAt = <T,>(items: T[], index: number, item: T): T[] =>
+  items.map((existing, i) => (i === index ? item : existing));
+
+const collectIds = (stages: Stage[]) => new Set(stages.flatMap(stage => [
+  stage.id,
+  ...stage.sections.flatMap(section => [section.id, ...(section.questions || []).map(q => q.id)]),
+]));
+
+const textareaClass = 'w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-elleo-purple focus:border-transparent resize-y';
+
+const MoveButtons: React.FC<{ onMove: (delta: number) => void }> = ({ onMove }) => (
+  <div className="flex gap-1">
+    <button onClick={() => onMove(-1)} className="px-2 py-1 text-xs text-slate-400 hover:text-slate-700 rounded border border-slate-200 bg-white" title="위로">↑</button>
+    <button onClick={() => onMove(1)} className="px-2 py-1 text-xs text-slate-400 hover:text-slate-700 rounded border border-slate-200 bg-white" title="아래로">↓</button>
+  </div>
+);
+
+// Saved items are only retired so older answers keep their text; unsaved ones can be removed
+const RetireButton: React.FC<{ retired?: boolean; isNew: boolean; onRetire: (retired: boolean) => void; onRemove: () => void }> =
+  ({ retired, isNew, onRetire, onRemove }) => (
+    <button
+      onClick={() => (isNew ? onRemove() : onRetire(!retired))}
+      className={`px-2 py-1 text-xs font-bold rounded border ${retired
+        ? 'text-elleo-purple border-elleo-purple bg-white'
+        : 'text-slate-400 border-slate-200 bg-white hover:text-red-500 hover:border-red-200'}`}
+    >
+      {isNew ? '삭제' : retired ? '다시 사용' : '사용 중지'}
+    </button>
+  );
+
+// Weight 1 is the default and is left out of the saved template
+const WeightInput: React.FC<{ weight?: number; onChange: (weight: number | undefined) => void }> = ({ weight, onChange }) => (
+  <label className="flex items-center gap-1 text-xs font-bold text-slate-500 whitespace-nowrap" title="점수 계산 시 가중치 (0이면 제외)">
+    가중치
+    <input
+      type="number"
+      min={0}
+      step={0.5}
+      className="w-16 px-2 py-1 bg-white border border-slate-300 rounded-md text-sm font-normal text-slate-700 focus:outline-none focus:ring-2 focus:ring-elleo-purple focus:border-transparent"
+      value={weight ?? 1}
+      onChange={e => {
+        const value = e.target.value === '' ? 0 : Number(e.target.value);
+        onChange(value === 1 ? undefined : value);
+      }}
+    />
+  </label>
+);
+
+// Nothing selected means every position
+const PositionPicker: React.FC<{ label: string; options: string[]; selected?: string[]; onChange: (positions: string[] | undefined) => void }> =
+  ({ label, options, selected = [], onChange }) => (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs font-bold text-slate-500">{label}</span>
+      {/* Positions no longer offered stay visible so they can be deselected */}
+      {[...options, ...selected.filter(p => !options.includes(p))].map(position => {
+        const isSelected = selected.includes(position);
+        return (
+          <button
+            key={position}
+            onClick={() => {
+              const next = isSelected ? selected.filter(p => p !== position) : [...selected, position];
+              onChange(next.length > 0 ? next : undefined);
+            }}
+            className={`px-2 py-0.5 rounded-md text-xs border transition-colors ${isSelected
+              ? 'bg-elleo-purple text-white border-elleo-purple'
+              : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'}`}
+          >
+            {position}
+          </button>
+        );
+      })}
+      {selected.length === 0 && <span className="text-xs text-slate-400">전체 포지션</span>}
+    </div>
+  );
+
+interface StringListEditorProps {
+  label: string;
+  items: string[];
+  placeholder: string;
+  multiline?: boolean;
+  onChange: (items: string[]) => void;
+}
+
+const StringListEditor: React.FC<StringListEditorProps> = ({ label, items, placeholder, multiline, onChange }) => (
+  <div className="space-y-2">
+    <label className="text-xs font-bold text-slate-500">{label}</label>
+    {items.map((item, index) => (
+      <div key={index} className="flex items-start gap-2">
+        {multiline ? (
+          <textarea className={textareaClass} rows={2} value={item} placeholder={placeholder} onChange={e => onChange(replaceAt(items, index, e.target.value))} />
+        ) : (
+          <input className={textareaClass} value={item} placeholder={placeholder} onChange={e => onChange(replaceAt(items, index, e.target.value))} />
+        )}
+        <MoveButtons onMove={delta => onChange(moveItem(items, index, delta))} />
+        <button onClick={() => onChange(items.filter((_, i) => i !== index))} className="px-2 py-1 text-xs text-slate-400 hover:text-red-500">✕</button>
+      </div>
+    ))}
+    <button onClick={() => onChange([...items, ''])} className="text-xs font-bold text-elleo-purple hover:underline">+ {label} 추가</button>
+  </div>
+);
+
+// Follow-ups keep their ids through edits and reordering, since their notes are stored by id.
+// Removing one is safe: records keep the template version they were run with.
+const FollowUpListEditor: React.FC<{ items: FollowUp[]; onChange: (items: FollowUp[]) => void }> = ({ items, onChange }) => (
+  <div className="space-y-2">
+    <label className="text-xs font-bold text-slate-500">꼬리 질문</label>
+    {items.map((item, index) => (
+      <div key={item.id} className="flex items-start gap-2">
+        <input
+          className={textareaClass}
+          value={item.text}
+          placeholder="예: 그때 본인이 다르게 할 수 있었던 점은 무엇이었나요?"
+          onChange={e => onChange(replaceAt(items, index, { ...item, text: e.target.value }))}
+        />
+        <MoveButtons onMove={delta => onChange(moveItem(items, index, delta))} />
+        <button onClick={() => onChange(items.filter((_, i) => i !== index))} className="px-2 py-1 text-xs text-slate-400 hover:text-red-500">✕</button>
+      </div>
+    ))}
+    <button onClick={() => onChange([...items, { id: newId('f'), text: '' }])} className="text-xs font-bold text-elleo-purple hover:underline">+ 꼬리 질문 추가</button>
+  </div>
+);
+
+// Blank entries are editing leftovers
+const cleanList = (items?: string[]) => {
+  const cleaned = items?.map(item => item.trim()).filter(Boolean);
+  return cleaned?.length ? cleaned : undefined;
+};
+
+export const TemplateEditor: React.FC = () => {
+  const { templates, getTemplate, reload } = useTemplates();
+  const [selectedType, setSelectedType] = useState<InterviewType>(DEFAULT_INTERVIEW_TYPE);
+  const [draft, setDraft] = useState<InterviewTemplate>(() => getTemplate(DEFAULT_INTERVIEW_TYPE));
+  const [savedIds, setSavedIds] = useState<Set<string>>(() => collectIds(getTemplate(DEFAULT_INTERVIEW_TYPE).stages));
+  const [expandedStageId, setExpandedStageId] = useState<string | null>(null);
+  const [expandedGuideIds, setExpandedGuideIds] = useState<Set<string>>(new Set());
+  // Korean edits the question bank itself; other languages edit its translations
+  const [editLanguage, setEditLanguage] = useState<InterviewLanguage>('ko');
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Pick up the loaded template whenever the selection or the stored copy changes
+  useEffect(() => {
+    const template = getTemplate(selectedType);
+    setDraft(template);
+    setSavedIds(collectIds(template.stages));
+    setIsDirty(false);
+  }, [selectedType, templates]);
+
+  const handleSelectType = (type: InterviewType) => {
+    if (type === selectedType) return;
+    if (isDirty && !confirm('저장하지 않은 변경 사항이 있습니다. 다른 템플릿으로 이동하시겠습니까?')) return;
+    setSelectedType(type);
+    setExpandedStageId(null);
+  };
+
+  const updateStages = (stages: Stage[]) => {
+    setDraft(prev => ({ ...prev, stages }));
+    setIsDirty(true);
+  };
+
+  const updateStage = (stageIndex: number, patch: Partial<Stage>) =>
+    updateStages(replaceAt(draft.stages, stageIndex, { ...draft.stages[stageIndex], ...patch }));
+
+  const updateSections = (stageIndex: number, sections: Section[]) => updateStage(stageIndex, { sections });
+
+  const updateSection = (stageIndex: number, sectionIndex: number, patch: Partial<Section>) => {
+    const sections = draft.stages[stageIndex].sections;
+    updateSections(stageIndex, replaceAt(sections, sectionIndex, { ...sections[sectionIndex], ...patch }));
+  };
+
+  const updateQuestions = (stageIndex: number, sectionIndex: number, questions: Question[]) =>
+    updateSection(stageIndex, sectionIndex, { questions });
+
+  const updateQuestion = (stageIndex: number, sectionIndex: number, questionIndex: number, patch: Partial<Question>) => {
+    const questions = draft.stages[stageIndex].sections[sectionIndex].questions || [];
+    updateQuestions(stageIndex, sectionIndex, replaceAt(questions, questionIndex, { ...questions[questionIndex], ...patch }));
+  };
+
+  const updatePassThresholds = (passThresholds: PassThreshold[]) => {
+    setDraft(prev => ({ ...prev, passThresholds: passThresholds.length > 0 ? passThresholds : undefined }));
+    setIsDirty(true);
+  };
+
+  const updateTranslation = (text: string, translated: string) => {
+    setDraft(prev => ({
+      ...prev,
+      translations: { ...prev.translations, [editLanguage]: { ...prev.translations?.[editLanguage], [text]: translated } },
+    }));
+    setIsDirty(true);
+  };
+
+  const handleAddStage = () => {
+    const stage: Stage = { id: newId('stage'), title: '', sections: [{ id: newId('s'), questions: [] }] };
+    updateStages([...draft.stages, stage]);
+    setExpandedStageId(stage.id);
+  };
+
+  const conditionErrors = validateTemplateConditions(draft.stages);
+  // Saved templates with broken conditions are flagged on their tab, not only the one being edited
+  const brokenTemplateIds = new Set(templates.filter(t => validateTemplateConditions(t.stages).length > 0).map(t => t.id));
+  // Sections and thresholds can only name positions the template is meant for
+  const positionOptions = getTemplatePositions(draft);
+
+  const validate = (): string | null => {
+    if (getActiveStages(draft.stages).length === 0) return '사용 중인 단계가 최소 하나는 있어야 합니다.';
+    if (draft.stages.some(stage => !stage.title.trim())) return '제목이 비어 있는 단계가 있습니다.';
+    if (getTemplateQuestions(draft.stages).some(q => !q.retired && !q.text.trim())) return '내용이 비어 있는 질문이 있습니다.';
+    const weights = [...draft.stages.map(s => s.weight), ...getTemplateQuestions(draft.stages).map(q => q.weight)];
+    if (weights.some(w => w !== undefined && !(w >= 0))) return '가중치는 0 이상의 숫자여야 합니다.';
+    const thresholds = draft.passThresholds || [];
+    if (thresholds.some(t => !(t.minScore >= 0 && t.minScore <= 100))) return '합격 기준 점수는 0에서 100 사이여야 합니다.';
+    const positions = thresholds.map(t => t.position.trim().toLowerCase());
+    if (new Set(positions).size !== positions.length) return '같은 포지션의 합격 기준이 두 번 이상 있습니다.';
+    if (conditionErrors.length > 0) return '표시 조건에 오류가 있습니다. 오류를 고친 뒤 저장해주세요.';
+    return null;
+  };
+
+  const handleSave = async () => {
+    const problem = validate();
+    if (problem) {
+      alert(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // Blank checkpoints and notices are editing leftovers
+      const stages = draft.stages.map(stage => ({
+        ...stage,
+        sections: stage.sections.map(section => ({
+          ...section,
+          notices: section.notices?.map(n => n.trim()).filter(Boolean),
+          questions: section.questions?.map(q => {
+            const followUps = q.followUps?.map(f => ({ ...f, text: f.text.trim() })).filter(f => f.text);
+            return {
+              ...q,
+              checkpoints: q.checkpoints.map(c => c.trim()).filter(Boolean),
+              followUps: followUps?.length ? followUps : undefined,
+              goodSigns: cleanList(q.goodSigns),
+              badSigns: cleanList(q.badSigns),
+            };
+          }),
+        })),
+      }));
+      const passThresholds = draft.passThresholds?.map(t => ({ ...t, position: t.position.trim() }));
+      const translations = pruneTranslations(draft.translations, stages);
+      const saved = await saveTemplate({ ...draft, stages, passThresholds, translations });
+      await reload();
+      alert(`버전 ${saved.version}으로 저장했습니다. 새로 시작하는 인터뷰부터 적용되며, 기존 기록은 작성 당시 버전을 유지합니다.`);
+    } catch (error: any) {
+      if (error instanceof TemplateConditionError) {
+        alert('표시 조건에 오류가 있습니다. 오류를 고친 뒤 저장해주세요.');
+      } else if (error instanceof TemplateVersionConflictError) {
+        alert('다른 관리자가 먼저 이 템플릿을 저장했습니다. 새로고침 후 다시 수정해주세요.');
+      } else {
+        alert(`템플릿 저장 실패: ${error?.message || ''}`);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderQuestion = (question: Question, stageIndex: number, sectionIndex: number, questionIndex: number) => {
+    const questions = draft.stages[stageIndex].sections[sectionIndex].questions || [];
+    const guideCount = (question.followUps?.length || 0) + (question.goodSigns?.length || 0) + (question.badSigns?.length || 0);
+    return (
+      <div key={question.id} className={`border border-slate-200 rounded-lg p-4 space-y-3 bg-white ${question.retired ? 'opacity-50' : ''}`}>
+        <div className="flex items-start gap-2">
+          <textarea
+            className={textareaClass}
+            rows={2}
+            placeholder="질문 내용"
+            value={question.text}
+            onChange={e => updateQuestion(stageIndex, sectionIndex, questionIndex, { text: e.target.value })}
+          />
+          <WeightInput weight={question.weight} onChange={weight => updateQuestion(stageIndex, sectionIndex, questionIndex, { weight })} />
+          <MoveButtons onMove={delta => updateQuestions(stageIndex, sectionIndex, moveItem(questions, questionIndex, delta))} />
+          <RetireButton
+            retired={question.retired}
+            isNew={!savedIds.has(question.id)}
+            onRetire={retired => updateQuestion(stageIndex, sectionIndex, questionIndex, { retired })}
+            onRemove={() => updateQuestions(stageIndex, sectionIndex, questions.filter((_, i) => i !== questionIndex))}
+          />
+        </div>
+        <StringListEditor
+          label="체크포인트"
+          placeholder="예: 업무 책임감"
+          items={question.checkpoints}
+          onChange={checkpoints => updateQuestion(stageIndex, sectionIndex, questionIndex, { checkpoints })}
+        />
+        <button
+          onClick={() => setExpandedGuideIds(prev => {
+            const next = new Set(prev);
+            if (!next.delete(question.id)) next.add(question.id);
+            return next;
+          })}
+          className="text-xs font-bold text-elleo-purple hover:underline"
+        >
+          {expandedGuideIds.has(question.id) ? '▾' : '▸'} 평가 가이드 · 꼬리 질문
+          {guideCount > 0 && <span className="text-slate-400 font-medium"> ({guideCount})</span>}
+        </button>
+        {expandedGuideIds.has(question.id) && (
+          <div className="pl-3 border-l-2 border-slate-100 space-y-3">
+            <FollowUpListEditor
+              items={question.followUps || []}
+              onChange={followUps => updateQuestion(stageIndex, sectionIndex, questionIndex, { followUps })}
+            />
+            <StringListEditor
+              label="좋은 답변"
+              placeholder="예: 본인의 책임을 인정하고 배운 점을 구체적으로 말함"
+              items={question.goodSigns || []}
+              onChange={goodSigns => updateQuestion(stageIndex, sectionIndex, questionIndex, { goodSigns })}
+            />
+            <StringListEditor
+              label="주의할 답변"
+              placeholder="예: 이전 직장·동료 탓만 반복함"
+              items={question.badSigns || []}
+              onChange={badSigns => updateQuestion(stageIndex, sectionIndex, questionIndex, { badSigns })}
+            />
+          </div>
+        )}
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              className="w-4 h-4 accent-elleo-purple"
+              checked={!!question.required}
+              onChange={e => updateQuestion(stageIndex, sectionIndex, questionIndex, { required: e.target.checked || undefined })}
+            />
+            <span className="text-sm text-slate-700">필수 질문 (완료 전 작성 필요)</span>
+          </label>
+          <p className="text-[11px] font-mono text-slate-300">{question.id}</p>
+        </div>
+      </div>
+    );
+  };
+
+  const renderSection = (section: Section, stageIndex: number, sectionIndex: number) => {
+    const sections = draft.stages[stageIndex].sections;
+    const conditionError = getConditionError(section.condition);
+    return (
+      <div key={section.id} className={`border-l-[3px] border-elleo-purple/40 pl-4 space-y-4 ${section.retired ? 'opacity-50' : ''}`}>
+        <div className="flex items-end gap-2">
+          <Input label="섹션 제목 (선택)" value={section.title || ''} onChange={e => updateSection(stageIndex, sectionIndex, { title: e.target.value || undefined })} />
+          <Input label="표시 조건 (선택)" placeholder="예: visaStatus == 'Working Holiday'" title="항목: position, store, visaStatus, hasSushiExperience 등 · answer(질문 ID) · 연산자: == != < > contains and or not" value={section.condition || ''} onChange={e => updateSection(stageIndex, sectionIndex, { condition: e.target.value || undefined })} />
+          <MoveButtons onMove={delta => updateSections(stageIndex, moveItem(sections, sectionIndex, delta))} />
+          <RetireButton
+            retired={section.retired}
+            isNew={!savedIds.has(section.id)}
+            onRetire={retired => updateSection(stageIndex, sectionIndex, { retired })}
+            onRemove={() => updateSections(stageIndex, sections.filter((_, i) => i !== sectionIndex))}
+          />
+        </div>
+        {conditionError && <p className="text-xs text-red-600">표시 조건 오류: {conditionError}</p>}
+        <PositionPicker
+          label="적용 포지션"
+          options={positionOptions}
+          selected={section.positions}
+          onChange={positions => updateSection(stageIndex, sectionIndex, { positions })}
+        />
+
+        <StringListEditor
+          label="고지사항"
+          placeholder="지원자에게 안내할 내용"
+          multiline
+          items={section.notices || []}
+          onChange={notices => updateSection(stageIndex, sectionIndex, { notices: notices.length > 0 ? notices : undefined })}
+        />
+        {(section.notices?.length || 0) > 0 && (
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              className="w-4 h-4 accent-elleo-purple"
+              checked={!!section.requireConsent}
+              onChange={e => updateSection(stageIndex, sectionIndex, { requireConsent: e.target.checked || undefined })}
+            />
+            <span className="text-sm text-slate-700">최종 동의 확인 받기 (완료 전 필수)</span>
+          </label>
+        )}
+
+        <div className="space-y-3">
+          {(section.questions || []).map((question, questionIndex) => renderQuestion(question, stageIndex, sectionIndex, questionIndex))}
+          <button
+            onClick={() => updateQuestions(stageIndex, sectionIndex, [...(section.questions || []), { id: newId('q'), text: '', checkpoints: [] }])}
+            className="text-xs font-bold text-elleo-purple hover:underline"
+          >
+            + 질문 추가
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-6">
+      <div className="flex items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-elleo-dark">인터뷰 템플릿 관리</h1>
+          <p className="text-slate-500 mt-1">단계·섹션·질문을 수정하면 다시 배포하지 않아도 새 인터뷰에 바로 반영됩니다.</p>
+        </div>
+        <Button onClick={handleSave} isLoading={isSaving} disabled={!isDirty}>저장</Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {templates.map(template => (
+          <button
+            key={template.id}
+            onClick={() => handleSelectType(template.id)}
+            className={`px-4 py-2 rounded-lg text-sm font-bold border transition-colors ${selectedType === template.id
+              ? 'bg-elleo-purple text-white border-elleo-purple'
+              : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'}`}
+            title={brokenTemplateIds.has(template.id) ? '표시 조건 오류가 있습니다' : undefined}
+          >
+            {template.name}
+            {brokenTemplateIds.has(template.id) && <span className="ml-1.5 inline-block w-2 h-2 rounded-full bg-red-500 align-middle" />}
+          </button>
+        ))}
+        <label className="self-center flex items-center gap-2 ml-auto text-sm text-slate-600">
+          체크포인트 평가 척도
+          <select
+            value={(draft.ratingScale || DEFAULT_RATING_SCALE).max}
+            onChange={e => {
+              setDraft(prev => ({ ...prev, ratingScale: { max: Number(e.target.value) } }));
+              setIsDirty(true);
+            }}
+            className="px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-elleo-purple/20"
+          >
+            {RATING_SCALE_OPTIONS.map(max => (
+              <option key={max} value={max}>1–{max}점</option>
+            ))}
+          </select>
+        </label>
+        <span className="self-center text-xs text-slate-400 ml-2">
+          {draft.version === 0 ? '기본 질문 (저장 전)' : `버전 ${draft.version}`}
+          {draft.updatedAt && ` · 마지막 저장 ${new Date(draft.updatedAt).toLocaleString()}`}
+        </span>
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm px-5 py-4 space-y-2">
+        <h2 className="text-base font-bold text-elleo-dark">대상 포지션</h2>
+        <p className="text-xs text-slate-500">인터뷰의 지원 포지션 목록에 표시됩니다. 섹션마다 적용 포지션을 지정하면 해당 포지션 지원자에게만 그 섹션이 나타납니다.</p>
+        <PositionPicker
+          label="템플릿"
+          options={POSITIONS}
+          selected={draft.positions}
+          onChange={positions => {
+            setDraft(prev => ({ ...prev, positions }));
+            setIsDirty(true);
+          }}
+        />
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm px-5 py-4 space-y-3">
+        <div>
+          <h2 className="text-base font-bold text-elleo-dark">포지션별 합격 기준</h2>
+          <p className="text-xs text-slate-500 mt-1">체크포인트 평가를 가중 평균한 종합 점수(100점 만점)가 기준 이상이면 합격 기준 충족으로 표시됩니다. 포지션을 비워두면 기준이 없는 모든 포지션에 적용됩니다.</p>
+        </div>
+        {(draft.passThresholds || []).map((threshold, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <select
+              className={textareaClass}
+              value={threshold.position}
+              onChange={e => updatePassThresholds(replaceAt(draft.passThresholds!, index, { ...threshold, position: e.target.value }))}
+            >
+              <option value="">기타 모든 포지션</option>
+              {[...positionOptions, ...(threshold.position && !positionOptions.includes(threshold.position) ? [threshold.position] : [])].map(position => (
+                <option key={position} value={position}>{position}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              className="w-24 px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-elleo-purple focus:border-transparent"
+              value={threshold.minScore}
+              onChange={e => updatePassThresholds(replaceAt(draft.passThresholds!, index, { ...threshold, minScore: Number(e.target.value) }))}
+            />
+            <span className="text-sm text-slate-500 whitespace-nowrap">점 이상</span>
+            <button onClick={() => updatePassThresholds(draft.passThresholds!.filter((_, i) => i !== index))} className="px-2 py-1 text-xs text-slate-400 hover:text-red-500">✕</button>
+          </div>
+        ))}
+        <button
+          onClick={() => updatePassThresholds([...(draft.passThresholds || []), { position: '', minScore: 70 }])}
+          className="text-xs font-bold text-elleo-purple hover:underline"
+        >
+          + 합격 기준 추가
+        </button>
+      </div>
+
+      {conditionErrors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-sm text-red-700 space-y-1">
+          <p className="font-bold">표시 조건을 해석할 수 없는 섹션이 {conditionErrors.length}개 있습니다. 인터뷰에서는 조건 없이 항상 표시되며, 오류를 고치기 전에는 저장할 수 없습니다.</p>
+          {conditionErrors.map(error => (
+            <p key={error.sectionId} className="font-mono text-xs">{error.stageId} / {error.sectionId}: {error.condition} — {error.message}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-bold text-slate-600 mr-1">편집 언어</span>
+        {INTERVIEW_LANGUAGES.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setEditLanguage(option.value)}
+            className={`px-3 py-1.5 rounded-lg text-sm font-semibold border transition-colors ${editLanguage === option.value
+              ? 'bg-elleo-dark text-white border-elleo-dark'
+              : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'}`}
+          >
+            {option.label}{option.value === 'ko' && ' (원문)'}
+          </button>
+        ))}
+      </div>
+
+      {editLanguage === 'ko' ? (
+        <>
+          <div className="space-y-3">
+            {draft.stages.map((stage, stageIndex) => {
+              const isExpanded = expandedStageId === stage.id;
+              return (
+                <div key={stage.id} className={`bg-white rounded-xl border border-slate-200 shadow-sm ${stage.retired ? 'opacity-60' : ''}`}>
+                  <div className="flex items-center gap-3 px-5 py-4">
+                    <button onClick={() => setExpandedStageId(isExpanded ? null : stage.id)} className={`text-slate-400 transition-transform ${isExpanded ? 'rotate-90' : ''}`}>▶</button>
+                    <input
+                      className="flex-1 text-base font-bold text-elleo-dark bg-transparent border-b border-transparent focus:border-elleo-purple focus:outline-none"
+                      placeholder="단계 제목"
+                      value={stage.title}
+                      onChange={e => updateStage(stageIndex, { title: e.target.value })}
+                    />
+                    <span className="text-xs text-slate-400">{stage.sections.length}개 섹션</span>
+                    {stage.type !== 'notice' && <WeightInput weight={stage.weight} onChange={weight => updateStage(stageIndex, { weight })} />}
+                    <MoveButtons onMove={delta => updateStages(moveItem(draft.stages, stageIndex, delta))} />
+                    <RetireButton
+                      retired={stage.retired}
+                      isNew={!savedIds.has(stage.id)}
+                      onRetire={retired => updateStage(stageIndex, { retired })}
+                      onRemove={() => updateStages(draft.stages.filter((_, i) => i !== stageIndex))}
+                    />
+                  </div>
+
+                  {isExpanded && (
+                    <div className="px-5 pb-5 space-y-6 border-t border-slate-100 pt-4 animate-fadeIn">
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <div className="md:col-span-2">
+                          <Input label="설명" value={stage.description || ''} onChange={e => updateStage(stageIndex, { description: e.target.value || undefined })} />
+                        </div>
+                        <div className="flex flex-col gap-1">
+                          <label className="text-sm font-bold text-slate-700">유형</label>
+                          <select
+                            value={stage.type || 'question'}
+                            onChange={e => updateStage(stageIndex, { type: e.target.value as Stage['type'] })}
+                            className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-elleo-purple focus:border-transparent h-[42px]"
+                          >
+                            <option value="question">질문</option>
+                            <option value="notice">고지사항</option>
+                          </select>
+                        </div>
+                      </div>
+                      {stage.type !== 'notice' && (
+                        <label className="flex items-center gap-2 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            className="w-4 h-4 accent-elleo-purple"
+                            checked={!!stage.showWorkHistory}
+                            onChange={e => updateStage(stageIndex, { showWorkHistory: e.target.checked || undefined })}
+                          />
+                          <span className="text-sm text-slate-700">이력서 경력 표시 (이력서에서 추출한 경력을 질문 위에 표시)</span>
+                        </label>
+                      )}
+
+                      {stage.sections.map((section, sectionIndex) => renderSection(section, stageIndex, sectionIndex))}
+
+                      <button
+                        onClick={() => updateSections(stageIndex, [...stage.sections, { id: newId('s'), questions: [] }])}
+                        className="text-sm font-bold text-elleo-purple hover:underline"
+                      >
+                        + 섹션 추가
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <Button variant="secondary" onClick={handleAddStage}>+ 단계 추가</Button>
+        </>
+      ) : (
+        <TemplateTranslationEditor
+          stages={draft.stages}
+          languageLabel={INTERVIEW_LANGUAGES.find(l => l.value === editLanguage)!.label}
+          translations={draft.translations?.[editLanguage] || {}}
+          onChange={updateTranslation}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useMemo, useState } from 'react';
+import { Stage } from '../types';
+import { TranslatableKind, getTranslatableTexts } from '../services/templateTranslations';
+
+const KIND_LABELS: Record<TranslatableKind, string> = {
+  question: '질문',
+  followUp: '꼬리 질문',
+  checkpoint: '체크포인트',
+  notice: '고지사항',
+};
+
+interface TemplateTranslationEditorProps {
+  stages: Stage[];
+  languageLabel: string;
+  translations: Record<string, string>;
+  onChange: (text: string, translated: string) => void;
+}
+
+// Lists every Korean text of the template next to its translation
+export const TemplateTranslationEditor: React.FC<TemplateTranslationEditorProps> = ({ stages, languageLabel, translations, onChange }) => {
+  const [missingOnly, setMissingOnly] = useState(false);
+  const texts = useMemo(() => getTranslatableTexts(stages), [stages]);
+  const isMissing = (text: string) => !translations[text]?.trim();
+  const missingCount = texts.filter(t => isMissing(t.text)).length;
+  const shown = missingOnly ? texts.filter(t => isMissing(t.text)) : texts;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between gap-3 px-5 py-4 border-b border-slate-100">
+        <p className="text-sm text-slate-600">
+          {languageLabel} 번역 {texts.length - missingCount}/{texts.length}
+          {missingCount > 0 && <span className="text-orange-600"> · 번역되지 않은 {missingCount}개는 인터뷰에서 한국어로 표시됩니다.</span>}
+        </p>
+        <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+          <input type="checkbox" className="w-4 h-4 accent-elleo-purple" checked={missingOnly} onChange={e => setMissingOnly(e.target.checked)} />
+          번역 안 된 항목만
+        </label>
+      </div>
+
+      <div className="divide-y divide-slate-100">
+        {shown.map((item, index) => (
+          <div key={item.text} className="px-5 py-3 grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              {(index === 0 || shown[index - 1].stageTitle !== item.stageTitle) && (
+                <p className="text-xs font-bold text-elleo-purple mb-1">{item.stageTitle}</p>
+              )}
+              <span className="inline-block text-[11px] font-bold text-slate-400 mr-2">{KIND_LABELS[item.kind]}</span>
+              <span className="text-sm text-slate-700">{item.text}</span>
+            </div>
+            <textarea
+              className={`w-full px-3 py-2 bg-white border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-elleo-purple focus:border-transparent resize-y ${isMissing(item.text) ? 'border-orange-300' : 'border-slate-300'}`}
+              rows={item.kind === 'checkpoint' ? 1 : 2}
+              placeholder={`${languageLabel} 번역`}
+              value={translations[item.text] || ''}
+              onChange={e => onChange(item.text, e.target.value)}
+            />
+          </div>
+        ))}
+        {shown.length === 0 && (
+          <p className="px-5 py-8 text-center text-sm text-slate-400">모든 항목이 번역되었습니다.</p>
+        )}
+      </div>
+    </div>
+  );
+};
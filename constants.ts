@@ -1,4 +1,4 @@
-import { Stage } from './types';
+import { AiRecommendation, CandidateOutcome, InterviewLanguage, RatingScale, Stage } from './types';
 
 export const INTERVIEW_STAGES: Stage[] = [
   /* =========================
@@ -44,6 +44,7 @@ export const INTERVIEW_STAGES: Stage[] = [
     id: 'stage2',
     title: '2단계: 경력 및 직무 역량',
     description: '이전 경험을 바탕으로 실제 업무 수행 가능성을 확인합니다.',
+    showWorkHistory: true,
     sections: [
       {
         id: 's2_common',
@@ -56,7 +57,13 @@ export const INTERVIEW_STAGES: Stage[] = [
           {
             id: 'q2_2',
             text: '그 직장을 그만두게 된 가장 큰 이유는 무엇이었나요?',
-            checkpoints: ['이직 사유의 안정성']
+            checkpoints: ['이직 사유의 안정성'],
+            followUps: [
+              { id: 'q2_2_f1', text: '그만두기 전에 그 문제를 해결하려고 직접 시도해 본 것이 있나요?' },
+              { id: 'q2_2_f2', text: '같은 상황이 다시 생긴다면 이번에는 어떻게 하실 것 같나요?' }
+            ],
+            goodSigns: ['계약 만료, 이사, 학업 등 사유가 구체적이고 앞뒤가 맞음', '아쉬운 점도 본인 관점에서 담담하게 설명함'],
+            badSigns: ['이전 매니저·동료 탓만 반복함', '짧은 근무 후 비슷한 이유로 그만둔 경우가 여러 번 있음']
           }
         ]
       },
@@ -77,7 +84,12 @@ export const INTERVIEW_STAGES: Stage[] = [
           {
             id: 'q2_5',
             text: '주문이 몰릴 때 본인만의 우선순위 관리 노하우가 있나요?',
-            checkpoints: ['멀티태스킹 능력']
+            checkpoints: ['멀티태스킹 능력'],
+            followUps: [
+              { id: 'q2_5_f1', text: '가장 바빴던 날을 하나 떠올려 보면, 그날 무엇부터 처리하셨나요?' }
+            ],
+            goodSigns: ['실제 있었던 상황을 예로 들어 순서와 이유를 설명함'],
+            badSigns: ['"열심히 하면 된다" 수준의 일반론에 그침']
           }
         ]
       },
@@ -124,7 +136,12 @@ export const INTERVIEW_STAGES: Stage[] = [
           {
             id: 'q3_3',
             text: '팀원이나 상사와 의견이 다를 때는 보통 어떤 방식으로 이야기하고 해결하는 편이신가요?',
-            checkpoints: ['의사소통 방식']
+            checkpoints: ['의사소통 방식'],
+            followUps: [
+              { id: 'q3_3_f1', text: '실제로 의견이 달랐던 상황을 하나 말씀해 주실 수 있나요? 결과는 어떻게 되었나요?' }
+            ],
+            goodSigns: ['바쁜 시간을 피해 따로 이야기하는 등 때와 방법을 가림', '결정이 난 뒤에는 따르는 태도'],
+            badSigns: ['무조건 참는다고만 함', '그 자리에서 바로 따진다고 함']
           },
           {
             id: 'q3_4',
@@ -214,4 +231,47 @@ export const INTERVIEW_STAGES: Stage[] = [
       }
     ]
   }
-];
\ No newline at end of file
+];
+
+export const CANDIDATE_OUTCOMES: { value: CandidateOutcome; label: string }[] = [
+  { value: 'pending', label: '진행 중' },
+  { value: 'hired', label: '채용' },
+  { value: 'rejected', label: '불합격' },
+  { value: 'withdrawn', label: '지원 철회' },
+];
+
+export const AI_RECOMMENDATIONS: { value: AiRecommendation; className: string }[] = [
+  { value: '추천', className: 'bg-green-50 text-green-700 border-green-200' },
+  { value: '보류', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  { value: '비추천', className: 'bg-red-50 text-red-600 border-red-200' },
+];
+
+export const VISA_STATUSES = [
+  'Australian Citizen',
+  'Permanent Resident',
+  'Partner / De facto',
+  'International Student',
+  'Working Holiday',
+  'Temporary Skill Shortage (TSS)',
+  'Others',
+];
+
+export const INTERVIEW_LANGUAGES: { value: InterviewLanguage; label: string }[] = [
+  { value: 'ko', label: '한국어' },
+  { value: 'en', label: 'English' },
+  { value: 'ja', label: '日本語' },
+];
+
+// Positions offered in the interview form; templates and sections can be limited to some of them
+export const POSITIONS = [
+  'Sushi Chef',
+  'Cook',
+  'Kitchen Hand',
+  'Front of House',
+  'Barista',
+  'Store Manager',
+];
+
+export const DEFAULT_RATING_SCALE: RatingScale = { max: 5 };
+
+export const RATING_SCALE_OPTIONS = [3, 4, 5, 7, 10];
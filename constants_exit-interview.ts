@@ -0,0 +1,71 @@
+import { Stage } from './types';
+
+export const INTERVIEW_STAGES: Stage[] = [
+  {
+    id: 'ex_stage1',
+    title: '1단계: 퇴사 사유',
+    description: '퇴사 예정 직원과 마지막 근무 주에 진행합니다. 평가가 아닌 개선을 위한 대화임을 먼저 안내해 주세요.',
+    sections: [
+      {
+        id: 'ex_s1',
+        questions: [
+          { id: 'ex_q1', text: '퇴사를 결정하게 된 가장 큰 이유는 무엇인가요?', checkpoints: ['핵심 퇴사 사유'], required: true },
+          { id: 'ex_q2', text: '언제부터 퇴사를 고민하셨고, 그때 어떤 일이 있었나요?', checkpoints: ['계기', '조기 신호'] },
+          { id: 'ex_q3', text: '회사나 매장이 무엇을 다르게 했다면 계속 일하셨을 것 같나요?', checkpoints: ['개선 가능 요인'] },
+        ]
+      }
+    ]
+  },
+  {
+    id: 'ex_stage2',
+    title: '2단계: 근무 경험',
+    sections: [
+      {
+        id: 'ex_s2_a',
+        title: 'A. 업무와 교육',
+        questions: [
+          { id: 'ex_q4', text: '일하면서 가장 만족스러웠던 점은 무엇이었나요?', checkpoints: ['유지 요인'] },
+          { id: 'ex_q5', text: '업무량, 스케줄, 교육 중 가장 힘들었던 부분은 무엇이었나요?', checkpoints: ['업무 환경', '교육 체계'] },
+        ]
+      },
+      {
+        id: 'ex_s2_b',
+        title: 'B. 매니저와 팀',
+        questions: [
+          { id: 'ex_q6', text: '매니저에게 필요한 도움이나 피드백을 충분히 받으셨나요?', checkpoints: ['매니지먼트'] },
+          { id: 'ex_q7', text: '팀 분위기나 동료와의 관계에서 개선되었으면 하는 점이 있나요?', checkpoints: ['팀 문화'] },
+        ]
+      }
+    ]
+  },
+  {
+    id: 'ex_stage3',
+    title: '3단계: 마무리',
+    sections: [
+      {
+        id: 'ex_s3',
+        questions: [
+          { id: 'ex_q8', text: '나중에 기회가 된다면 다시 함께 일할 의향이 있으신가요?', checkpoints: ['재입사 의향'] },
+          { id: 'ex_q9', text: '지인에게 이 직장을 추천하시겠어요? 그 이유는 무엇인가요?', checkpoints: ['추천 의향'] },
+        ]
+      }
+    ]
+  },
+  {
+    id: 'ex_stage4',
+    title: '4단계: 퇴사 절차 안내',
+    type: 'notice',
+    sections: [
+      {
+        id: 'ex_notice',
+        questions: [],
+        notices: [
+          '마지막 급여와 미사용 연차(Annual Leave)는 마지막 근무일이 포함된 급여일에 함께 지급됩니다.',
+          '유니폼, 매장 열쇠 및 출입 카드는 마지막 근무일에 매니저에게 반납해 주세요.',
+          '퇴직 연금(Super)은 계속 본인 명의의 펀드에 적립되어 있으며, 요청 시 고용 증명서를 발급해 드립니다.'
+        ],
+        requireConsent: true
+      }
+    ]
+  }
+];
@@ -88,6 +88,7 @@ export const INTERVIEW_STAGES: Stage[] = [
   {
     id: 'stage4',
     title: '4단계: 경력 및 비전',
+    showWorkHistory: true,
     sections: [
       {
         id: 's4_a',
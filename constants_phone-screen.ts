@@ -0,0 +1,36 @@
+import { Stage } from './types';
+
+export const INTERVIEW_STAGES: Stage[] = [
+  {
+    id: 'ps_stage1',
+    title: '1단계: 기본 조건 확인',
+    description: '대면 면접 전 10분 내외의 전화 통화로 근무 조건이 맞는지 확인합니다.',
+    sections: [
+      {
+        id: 'ps_s1',
+        questions: [
+          { id: 'ps_q1', text: '간단한 자기소개와 함께, 저희 매장에 지원하시게 된 계기를 말씀해 주시겠어요?', checkpoints: ['지원 동기', '전화 응대 태도'] },
+          { id: 'ps_q2', text: '현재 거주하시는 지역은 어디이고, 매장까지 출퇴근은 어떻게 하실 예정인가요?', checkpoints: ['출퇴근 가능성'] },
+          { id: 'ps_q3', text: '현재 비자 상태와 남은 체류 기간은 어떻게 되시나요?', checkpoints: ['근무 가능 기간'], required: true },
+          { id: 'ps_q4', text: '근무 가능한 요일과 시간대, 그리고 근무 시작 가능일을 알려주세요.', checkpoints: ['스케줄 적합성'], required: true },
+          { id: 'ps_q5', text: '희망하시는 주당 근무 시간과 시급이 있으신가요?', checkpoints: ['조건 현실성'] },
+        ]
+      }
+    ]
+  },
+  {
+    id: 'ps_stage2',
+    title: '2단계: 경력 확인 및 면접 안내',
+    showWorkHistory: true,
+    sections: [
+      {
+        id: 'ps_s2',
+        questions: [
+          { id: 'ps_q6', text: '가장 최근에 일하신 곳과 담당하셨던 업무를 간단히 말씀해 주세요.', checkpoints: ['관련 경력'] },
+          { id: 'ps_q7', text: '주방(스시/조리) 또는 홀 업무 경험은 각각 어느 정도 되시나요?', checkpoints: ['경력 기간', '포지션 적합성'] },
+          { id: 'ps_q8', text: '대면 면접은 언제 가능하신가요? 가능한 날짜와 시간을 두세 개 알려주세요.', checkpoints: ['면접 일정'], required: true },
+        ]
+      }
+    ]
+  }
+];
@@ -0,0 +1,284 @@
+import { TemplateTranslations } from './types';
+
+// English and Japanese for the bundled question banks (constants.ts and
+// constants_in-depth.ts) and their follow-ups, keyed by the Korean text they translate
+export const BUNDLED_TRANSLATIONS: TemplateTranslations = {
+  en: {
+    /* Standard interview */
+    '먼저 간단한 본인 소개와 함께, 어떻게 저희 Elleo Group(Sushia)에 지원하게 되셨는지 편하게 말씀해 주시겠어요?': 'To start, could you briefly introduce yourself and tell us how you came to apply to Elleo Group (Sushia)?',
+    '이 일을 하시면서 개인적으로 얻고 싶은 경험이나 목표가 있다면 어떤 게 있을까요?': 'Is there any experience or personal goal you hope to gain from this job?',
+    '호주에는 어떤 계기로 오시게 되셨고, 현재 비자 상태나 앞으로의 체류 계획은 어떻게 되시나요?': 'What brought you to Australia, and what are your current visa status and plans for staying here?',
+    '1년 정도 후, 혹은 3년 뒤에 본인은 어떤 모습일 것 같다고 생각하시나요?': 'Where do you see yourself in about a year, or in three years?',
+    '지금까지 하신 일 중에서 가장 오래 근무했던 곳은 어디인가요? 그곳에서 주로 어떤 업무를 맡으셨나요?': 'Where have you worked the longest so far, and what were your main duties there?',
+    '그 직장을 그만두게 된 가장 큰 이유는 무엇이었나요?': 'What was the main reason you left that job?',
+    '스시 파트 중에서는 롤, 니기리, 사시미, 핫푸드 중 어떤 파트를 가장 자신 있게 하실 수 있나요? 각 파트별 경험 기간은 어떻게 되나요?': 'Among the sushi sections (rolls, nigiri, sashimi, hot food), which are you most confident in? How long have you worked in each?',
+    '연어 작업은 오로시부터 사시미까지 직접 해보신 경험이 있으신가요? (필렛, 슬라이스, 포션 구분 가능 여부)': 'Have you prepared salmon yourself, from breaking it down (oroshi) to sashimi? (Can you tell filleting, slicing and portioning apart?)',
+    '주문이 몰릴 때 본인만의 우선순위 관리 노하우가 있나요?': 'When orders pile up, do you have your own way of managing priorities?',
+    '처음 해보는 일이나 익숙하지 않은 작업을 배울 때, 본인 스스로는 습득 속도가 어떤 편이라고 생각하시나요?': 'When you learn something new or unfamiliar, how quickly do you think you pick it up?',
+    '이 일은 반복적인 작업도 많고 오래 서서 일하는 경우도 있는데, 체력적으로는 괜찮으실까요?': 'This job involves a lot of repetitive work and long hours on your feet. Are you comfortable with that physically?',
+    '본인 성격을 가장 잘 표현하는 키워드가 있다면 어떤 게 있을까요? 주변에서 자주 듣는 평가도 괜찮습니다.': 'What keywords best describe your personality? Things people around you often say about you are fine too.',
+    '일이 많이 바쁘거나 스트레스를 받는 상황에서는 보통 어떻게 컨디션을 조절하시나요?': 'When work gets very busy or stressful, how do you usually look after yourself?',
+    '팀원이나 상사와 의견이 다를 때는 보통 어떤 방식으로 이야기하고 해결하는 편이신가요?': 'When you disagree with a teammate or manager, how do you usually talk it through and resolve it?',
+    '규칙과 시스템이 잘 정리된 환경과 비교적 자유로운 분위기 중에서는 어떤 쪽이 본인에게 더 잘 맞는다고 느끼시나요?': 'Which suits you better: an environment with clear rules and systems, or a relatively relaxed one?',
+    '근무는 언제부터 시작 가능하신가요?': 'When could you start?',
+    '정기적으로 근무가 어려운 요일이나 시간대가 있다면 말씀해 주세요.': 'Please let us know any days or times you regularly cannot work.',
+    '일주일 기준으로 희망하시는 근무 시간은 어느 정도인가요?': 'How many hours a week would you like to work?',
+    '급여와 관련해서 시급이나 연봉에 대해 생각해 두신 기준이 있으신가요?': 'Do you have an hourly rate or salary in mind?',
+    '업무에 필요한 기본적인 영어 소통은 어느 정도 가능하다고 생각하시나요?': 'How comfortable are you with the basic English communication the job requires?',
+    '출퇴근은 어떤 방법으로 하실 예정이고, 소요 시간은 어느 정도인가요?': 'How will you get to work, and how long will the trip take?',
+    '마지막으로 회사나 근무와 관련해서 미리 공유하고 싶은 내용이 있으실까요?': 'Finally, is there anything about the company or the job you would like to share with us in advance?',
+    '그만두기 전에 그 문제를 해결하려고 직접 시도해 본 것이 있나요?': 'Before you left, did you try to resolve the problem yourself?',
+    '같은 상황이 다시 생긴다면 이번에는 어떻게 하실 것 같나요?': 'If the same situation came up again, what would you do this time?',
+    '가장 바빴던 날을 하나 떠올려 보면, 그날 무엇부터 처리하셨나요?': 'Think of the busiest day you have had. What did you deal with first?',
+    '실제로 의견이 달랐던 상황을 하나 말씀해 주실 수 있나요? 결과는 어떻게 되었나요?': 'Could you tell us about a time you actually disagreed with someone? How did it turn out?',
+
+    '지원 동기 진정성': 'Sincerity of motivation',
+    '성장 의지': 'Desire to grow',
+    '근무 지속 가능성': 'Likelihood of staying long-term',
+    '커리어 비전 및 태도': 'Career vision and attitude',
+    '업무 책임감': 'Sense of responsibility',
+    '이직 사유의 안정성': 'Soundness of reasons for leaving',
+    '실무 숙련도': 'Hands-on proficiency',
+    '기술 숙련도': 'Technical skill',
+    '멀티태스킹 능력': 'Multitasking ability',
+    '학습 적응력': 'Ability to learn and adapt',
+    '현장 근무 적합성': 'Fit for on-site work',
+    '자기 인식 수준': 'Self-awareness',
+    '스트레스 관리 능력': 'Stress management',
+    '의사소통 방식': 'Communication style',
+    '조직 문화 적합도': 'Cultural fit',
+    '근무 시작 가능 시점': 'Available start date',
+    '스케줄 제약 여부': 'Schedule constraints',
+    '근무 가능 시간대': 'Available hours',
+    '급여 조건 협의 필요성': 'Pay needs negotiating',
+    '업무 소통 가능 수준': 'Workplace communication level',
+    '출퇴근 안정성': 'Reliable commute',
+    '추가 리스크 여부': 'Other risks',
+
+    /* In-depth interview */
+    '본인이 스스로 생각하는 성격 3 가지 키워드는?': 'What three keywords would you use to describe your personality?',
+    '친한 친구가 본인을 한 문장으로 정의한다면?': 'How would a close friend describe you in one sentence?',
+    '스트레스 받으면 나타나는 본인만의 반응 패턴은?': 'How do you typically react when you are stressed?',
+    '화가 났을 때, 그 감정을 어떻게 처리하는 편인가요?': 'When you get angry, how do you usually deal with it?',
+    '살면서 가장 따뜻했던/차가웠던 순간은?': 'What was the warmest, or the coldest, moment of your life?',
+    '에너지가 완전히 고갈(Burn-out)되었다고 느낄 때, 몸이나 마음이 보내는 신호가 있나요?': 'When you feel completely burnt out, are there signals your body or mind sends you?',
+    "삶에서 예기치 못한 '브레이크'가 걸렸던 적이 있나요? 그때 어떻게 다시 일상으로 돌아오셨나요?": "Has life ever unexpectedly 'put the brakes on' for you? How did you get back to your routine?",
+    '자라온 환경이나 성장 배경 중에서 ‘아, 이게 나한테 영향을 줬구나’ 싶은 게 있나요?': "Is there anything in your upbringing that makes you think, 'Ah, that really shaped me'?",
+    '가정이나 성장 과정에서 자연스럽게 배우게 된 가치관이나 생활 습관 중, 지금의 본인에게 도움이 되고 있다고 느끼는 게 있다면 나눠주실 수 있을까요?': 'Could you share any values or habits you picked up from your family or upbringing that help you today?',
+    '힘들거나 고민이 있을 때, 보통 어떤 사람이나 어떤 방식에 가장 먼저 의지하는 편이신가요?': 'When things are hard or something is on your mind, who or what do you usually turn to first?',
+    '삶을 살아가면서 자신만의 기준이 되는 말이나 좌우명이 있을까요?': 'Do you have a saying or motto you live by?',
+    '지금까지 인생에서 가장 힘들었던 순간은 언제이며 그 상황을 어떻게 넘겼나요?': 'What has been the hardest moment of your life so far, and how did you get through it?',
+    '혹시 살아오면서 본인을 성장시켰다고 느낀 사건이나 경험이 있다면 공유해주실 수 있을까요?': 'Is there an event or experience that you feel helped you grow? Could you share it with us?',
+    '팀에서 일을 할 때, 본인이 주로 맡는 역할이나 포지션이 있다면 어떻게 생각하시나요?': 'When you work in a team, what role do you usually take on?',
+    '팀에서 의견 충돌이나 갈등이 생기면 보통 본인은 어떻게 대응하시는 편인가요?': 'When disagreements or conflicts come up in the team, how do you usually respond?',
+    '의견 충돌 시 본인 주장 표현하기 위해 어떻게 하나요?': 'In a disagreement, how do you get your point across?',
+    '상사와 생각이 다를 때, 본인만의 표현 방식이 있나요?': 'When you see things differently from your manager, how do you raise it?',
+    '완벽하게 준비되지 않은 상태에서 일을 시작한다면, 어떤 기분이 드나요?': 'How do you feel when you have to start something before you are fully prepared?',
+    '혼자 vs 팀, 어떤 환경 선호나요?': 'Do you prefer working alone or in a team?',
+    '본인이 리더라고 가정했을 때, 다루기 힘든 팀원 유형은 어떤 유형이라고 생각하나요?': 'If you were the leader, what kind of team member would you find hardest to manage?',
+    '이전 경험 중에서 가장 적응하기 어려웠던 조직 문화와, 반대로 가장 잘 맞았다고 느낀 조직 문화가 있다면 간단히 나눠주실 수 있을까요?': 'From your past jobs, could you briefly describe the workplace culture that was hardest to adapt to, and the one that suited you best?',
+    '규칙이 많은 조직 vs 자유로운 조직 중 어느 쪽이 맞나요?': 'Which suits you: an organisation with many rules, or a relaxed one?',
+    '피크타임 기준, 롤 몇 줄 정도 커버 가능하나요?': 'At peak time, how many rolls can you keep up with?',
+    'Rush 상황에서 실수 줄이는 본인만의 방식이 있나요?': 'Do you have your own way of avoiding mistakes during a rush?',
+    '사시미 작업 시 가장 중요하게 보는 포인트는?': 'What do you pay the most attention to when preparing sashimi?',
+    '위생 기준 중 가장 중요하다고 생각하는 건?': 'Which hygiene standard do you think matters most?',
+    'Salmon Sashimi 직접 잡아본 경험이 있나요?': 'Have you cut salmon sashimi yourself?',
+    '필렛 / 슬라이스 / 포션 작업 경험을 구분해서 말할 수 있나요?': 'Can you describe your experience with filleting, slicing and portioning separately?',
+    '주문 밀릴 때 우선순위 정하는 기준은?': 'How do you decide priorities when orders back up?',
+    '동시에 몇개 스테이션까지 커버 가능한지?': 'How many stations can you cover at once?',
+    '이전 경력 중 가장 오랫동안 근무하신 회사나 역할이 있으신가요? 그 경험에서 맡으셨던 주요 업무나 책임은 어떤 것이었을까요?': 'Which company or role have you stayed in the longest? What were your main duties and responsibilities there?',
+    '그 직장을 떠나신 이유를 간단히 말씀해주실 수 있을까요? 그만두면서 깨달은게 있으신가요?': 'Could you briefly tell us why you left that job? Did you learn anything from leaving?',
+    '상사나 동료들과의 관계는 어땠나요?': 'How were your relationships with your managers and colleagues?',
+    '1 년 뒤 본인의 근무 모습을 상상해 보면?': 'Picture yourself at work a year from now. What do you see?',
+    '3 년 뒤 삶의 모습은?': 'What does your life look like in three years?',
+    '이 일을 통해 얻고 싶은 것은?': 'What do you want to get out of this job?',
+    '이 일이 커리어에 어떤 의미인가요?': 'What does this job mean for your career?',
+
+    '자기인식 수준': 'Self-awareness',
+    '감정조절 능력': 'Emotional regulation',
+    '자기성찰': 'Self-reflection',
+    '방어적 태도 여부': 'Defensiveness',
+    '자기인식': 'Self-awareness',
+    '감정조절': 'Emotional regulation',
+    '문제대처': 'Coping with setbacks',
+    '책임감 구조': 'Where responsibility comes from',
+    '관계 맺는 방식': 'How they build relationships',
+    '의존형/독립형 성향': 'Dependent vs independent',
+    '성장 마인드셋': 'Growth mindset',
+    '문제대처 방식': 'Coping style',
+    '회피형 vs 직면형': 'Avoids vs confronts',
+    '피해자 프레임 여부': 'Victim mindset',
+    '리더형/서포터형/조율자형/실행자형': 'Leader / supporter / coordinator / doer',
+    '소통 방식': 'Communication style',
+    '권위 인식': 'Attitude to authority',
+    '수직적 관계 인식': 'Attitude to hierarchy',
+    '수용성': 'Openness',
+    '조직 적응력': 'Adaptability',
+    '규칙 수용력': 'Acceptance of rules',
+    '시스템 적응력': 'Adapting to systems',
+    '문화 적합성': 'Cultural fit',
+    '사고방식 유형': 'Way of thinking',
+    '속도': 'Speed',
+    '속도 & 정확성': 'Speed & accuracy',
+    '디테일 인식': 'Attention to detail',
+    '기술/경험 깊이': 'Depth of skill and experience',
+    '멀티태스킹': 'Multitasking',
+    '이직 패턴': 'Job-change pattern',
+    '반복 사유 여부': 'Recurring reasons',
+    '관계 유지 능력': 'Maintaining relationships',
+    '커리어 목표': 'Career goals',
+    '모티베이션 유형': 'Type of motivation',
+    '체류 가능성': 'Likelihood of staying in Australia',
+    '조직 장기 적합성': 'Long-term fit',
+
+    /* Notices (both interviews) */
+    'Elleo Group은 법정 규정을 준수하며, 모든 급여는 2주마다 통장으로 자동 입금됩니다. (캐시 지급 없음)': 'Elleo Group complies with all legal requirements, and wages are paid into your bank account every two weeks. (No cash payments.)',
+    '연차(Annual Leave) 및 연금(Super)이 법적으로 적용되어 실제 수령 가치는 기본 급여 이상입니다.': 'Annual leave and superannuation apply as required by law, so the real value of your pay is more than the base wage.',
+    '나이에 따라 법정 최저 시급(Rate)이 다르게 적용될 수 있음을 안내합니다.': 'Please note that the legal minimum hourly rate may differ depending on your age.',
+    '매장 운영 시간은 07:00 ~ 17:30이며, 근무 스케줄은 이에 맞춰 조정됩니다.': 'Store hours are 07:00 to 17:30, and rosters are arranged around them.',
+    '워킹홀리데이 비자 소지자의 경우, 법적 제한에 따라 주당 최대 근무 시간은 42시간을 초과할 수 없습니다.': 'Working holiday visa holders cannot work more than 42 hours a week because of legal restrictions.',
+    '최초 입사 시 파트타임으로 업무를 시작하며, 업무 성과에 따라 풀타임 전환 및 비자 지원(본사 문의) 기회가 제공됩니다.': 'Everyone starts part-time. Depending on performance, there are opportunities to move to full-time and for visa sponsorship (ask head office).',
+    '근무 시작 후 처음 4시간은 업무 적합성 확인을 위한 트라이얼로 진행되며, 이 시간은 급여가 지급되지 않습니다.': 'The first 4 hours of work are a trial to confirm you are a good fit for the role, and these hours are unpaid.',
+    '퇴사 시에는 업무 인수인계를 위해 최소 2주 전 사전 통보(Notice)를 원칙으로 합니다.': "If you resign, we ask for at least two weeks' notice so your work can be handed over.",
+    '입사 후 6개월은 프로베이션(수습) 기간이 적용되며, 이 기간에는 회사와 근로자 모두 계약 종료를 결정할 수 있습니다.': 'The first 6 months are a probation period, during which either the company or the employee may end the employment.',
+  },
+  ja: {
+    /* Standard interview */
+    '먼저 간단한 본인 소개와 함께, 어떻게 저희 Elleo Group(Sushia)에 지원하게 되셨는지 편하게 말씀해 주시겠어요?': 'まず簡単に自己紹介をしていただき、Elleo Group(Sushia)に応募されたきっかけを気軽にお聞かせいただけますか？',
+    '이 일을 하시면서 개인적으로 얻고 싶은 경험이나 목표가 있다면 어떤 게 있을까요?': 'この仕事を通じて個人的に得たい経験や目標があれば教えてください。',
+    '호주에는 어떤 계기로 오시게 되셨고, 현재 비자 상태나 앞으로의 체류 계획은 어떻게 되시나요?': 'オーストラリアに来られたきっかけと、現在のビザの状況や今後の滞在予定を教えてください。',
+    '1년 정도 후, 혹은 3년 뒤에 본인은 어떤 모습일 것 같다고 생각하시나요?': '1年後、あるいは3年後、ご自身はどのようになっていると思いますか？',
+    '지금까지 하신 일 중에서 가장 오래 근무했던 곳은 어디인가요? 그곳에서 주로 어떤 업무를 맡으셨나요?': 'これまでで最も長く勤務した職場はどこですか？そこでは主にどのような業務を担当していましたか？',
+    '그 직장을 그만두게 된 가장 큰 이유는 무엇이었나요?': 'その職場を辞めた一番の理由は何でしたか？',
+    '스시 파트 중에서는 롤, 니기리, 사시미, 핫푸드 중 어떤 파트를 가장 자신 있게 하실 수 있나요? 각 파트별 경험 기간은 어떻게 되나요?': '寿司の担当のうち、ロール・握り・刺身・ホットフードのどれに最も自信がありますか？それぞれの経験期間も教えてください。',
+    '연어 작업은 오로시부터 사시미까지 직접 해보신 경험이 있으신가요? (필렛, 슬라이스, 포션 구분 가능 여부)': 'サーモンをおろしから刺身まで自分で扱った経験はありますか？(フィレ・スライス・ポーションの区別ができるか)',
+    '주문이 몰릴 때 본인만의 우선순위 관리 노하우가 있나요?': '注文が集中したとき、自分なりの優先順位の付け方はありますか？',
+    '처음 해보는 일이나 익숙하지 않은 작업을 배울 때, 본인 스스로는 습득 속도가 어떤 편이라고 생각하시나요?': '初めての仕事や慣れない作業を覚えるとき、ご自身の習得スピードはどのくらいだと思いますか？',
+    '이 일은 반복적인 작업도 많고 오래 서서 일하는 경우도 있는데, 체력적으로는 괜찮으실까요?': 'この仕事は繰り返しの作業が多く、長時間の立ち仕事になることもありますが、体力的に大丈夫でしょうか？',
+    '본인 성격을 가장 잘 표현하는 키워드가 있다면 어떤 게 있을까요? 주변에서 자주 듣는 평가도 괜찮습니다.': 'ご自身の性格を最もよく表すキーワードは何ですか？周りからよく言われることでも構いません。',
+    '일이 많이 바쁘거나 스트레스를 받는 상황에서는 보통 어떻게 컨디션을 조절하시나요?': '仕事がとても忙しいときやストレスを感じるとき、普段どのようにコンディションを整えていますか？',
+    '팀원이나 상사와 의견이 다를 때는 보통 어떤 방식으로 이야기하고 해결하는 편이신가요?': 'チームメンバーや上司と意見が違うとき、普段どのように話し合って解決していますか？',
+    '규칙과 시스템이 잘 정리된 환경과 비교적 자유로운 분위기 중에서는 어떤 쪽이 본인에게 더 잘 맞는다고 느끼시나요?': 'ルールや仕組みが整った環境と、比較的自由な雰囲気の環境では、どちらがご自身に合っていると感じますか？',
+    '근무는 언제부터 시작 가능하신가요?': 'いつから勤務を開始できますか？',
+    '정기적으로 근무가 어려운 요일이나 시간대가 있다면 말씀해 주세요.': '定期的に勤務が難しい曜日や時間帯があれば教えてください。',
+    '일주일 기준으로 희망하시는 근무 시간은 어느 정도인가요?': '1週間あたりの希望勤務時間はどのくらいですか？',
+    '급여와 관련해서 시급이나 연봉에 대해 생각해 두신 기준이 있으신가요?': '給与について、希望する時給や年収の目安はありますか？',
+    '업무에 필요한 기본적인 영어 소통은 어느 정도 가능하다고 생각하시나요?': '業務に必要な基本的な英語でのコミュニケーションは、どの程度できると思いますか？',
+    '출퇴근은 어떤 방법으로 하실 예정이고, 소요 시간은 어느 정도인가요?': '通勤方法と所要時間を教えてください。',
+    '마지막으로 회사나 근무와 관련해서 미리 공유하고 싶은 내용이 있으실까요?': '最後に、会社や勤務に関して事前に共有しておきたいことはありますか？',
+    '그만두기 전에 그 문제를 해결하려고 직접 시도해 본 것이 있나요?': '辞める前に、その問題を自分で解決しようとしたことはありますか？',
+    '같은 상황이 다시 생긴다면 이번에는 어떻게 하실 것 같나요?': '同じ状況がまた起きたら、今度はどうしますか？',
+    '가장 바빴던 날을 하나 떠올려 보면, 그날 무엇부터 처리하셨나요?': '一番忙しかった日を思い出してみてください。その日は何から対応しましたか？',
+    '실제로 의견이 달랐던 상황을 하나 말씀해 주실 수 있나요? 결과는 어떻게 되었나요?': '実際に意見が食い違った場面を一つ教えていただけますか？結果はどうなりましたか？',
+
+    '지원 동기 진정성': '志望動機の真剣さ',
+    '성장 의지': '成長意欲',
+    '근무 지속 가능성': '継続勤務の可能性',
+    '커리어 비전 및 태도': 'キャリアビジョンと姿勢',
+    '업무 책임감': '業務への責任感',
+    '이직 사유의 안정성': '退職理由の妥当性',
+    '실무 숙련도': '実務の熟練度',
+    '기술 숙련도': '技術の熟練度',
+    '멀티태스킹 능력': 'マルチタスク能力',
+    '학습 적응력': '学習・適応力',
+    '현장 근무 적합성': '現場勤務への適性',
+    '자기 인식 수준': '自己認識のレベル',
+    '스트레스 관리 능력': 'ストレス管理能力',
+    '의사소통 방식': 'コミュニケーションの取り方',
+    '조직 문화 적합도': '組織文化への適合度',
+    '근무 시작 가능 시점': '勤務開始可能時期',
+    '스케줄 제약 여부': 'スケジュールの制約',
+    '근무 가능 시간대': '勤務可能な時間帯',
+    '급여 조건 협의 필요성': '給与条件の調整の必要性',
+    '업무 소통 가능 수준': '業務上のコミュニケーションレベル',
+    '출퇴근 안정성': '通勤の安定性',
+    '추가 리스크 여부': 'その他のリスク',
+
+    /* In-depth interview */
+    '본인이 스스로 생각하는 성격 3 가지 키워드는?': 'ご自身の性格を表すキーワードを3つ挙げるとしたら？',
+    '친한 친구가 본인을 한 문장으로 정의한다면?': '親しい友人があなたを一文で表すとしたら？',
+    '스트레스 받으면 나타나는 본인만의 반응 패턴은?': 'ストレスを感じたときに出る、ご自身の反応パターンは？',
+    '화가 났을 때, 그 감정을 어떻게 처리하는 편인가요?': '怒りを感じたとき、その感情をどのように処理していますか？',
+    '살면서 가장 따뜻했던/차가웠던 순간은?': 'これまでの人生で最も温かかった／冷たかった瞬間は？',
+    '에너지가 완전히 고갈(Burn-out)되었다고 느낄 때, 몸이나 마음이 보내는 신호가 있나요?': 'エネルギーが完全に尽きた(バーンアウト)と感じるとき、体や心が出すサインはありますか？',
+    "삶에서 예기치 못한 '브레이크'가 걸렸던 적이 있나요? 그때 어떻게 다시 일상으로 돌아오셨나요?": '人生で思いがけず「ブレーキ」がかかったことはありますか？そのとき、どのように日常に戻りましたか？',
+    '자라온 환경이나 성장 배경 중에서 ‘아, 이게 나한테 영향을 줬구나’ 싶은 게 있나요?': '育った環境や生い立ちの中で「これが自分に影響を与えたんだな」と思うことはありますか？',
+    '가정이나 성장 과정에서 자연스럽게 배우게 된 가치관이나 생활 습관 중, 지금의 본인에게 도움이 되고 있다고 느끼는 게 있다면 나눠주실 수 있을까요?': '家庭や成長の過程で自然と身についた価値観や生活習慣の中で、今のご自身に役立っていると感じるものがあれば教えていただけますか？',
+    '힘들거나 고민이 있을 때, 보통 어떤 사람이나 어떤 방식에 가장 먼저 의지하는 편이신가요?': 'つらいときや悩みがあるとき、普段まず誰に、またはどのような方法に頼ることが多いですか？',
+    '삶을 살아가면서 자신만의 기준이 되는 말이나 좌우명이 있을까요?': '生きていく上で、ご自身の基準になっている言葉や座右の銘はありますか？',
+    '지금까지 인생에서 가장 힘들었던 순간은 언제이며 그 상황을 어떻게 넘겼나요?': 'これまでの人生で最もつらかった時期はいつで、その状況をどのように乗り越えましたか？',
+    '혹시 살아오면서 본인을 성장시켰다고 느낀 사건이나 경험이 있다면 공유해주실 수 있을까요?': 'これまでの人生で、ご自身を成長させたと感じる出来事や経験があれば共有していただけますか？',
+    '팀에서 일을 할 때, 본인이 주로 맡는 역할이나 포지션이 있다면 어떻게 생각하시나요?': 'チームで働くとき、ご自身が主に担う役割は何だと思いますか？',
+    '팀에서 의견 충돌이나 갈등이 생기면 보통 본인은 어떻게 대응하시는 편인가요?': 'チーム内で意見の衝突や対立が起きたとき、普段どのように対応していますか？',
+    '의견 충돌 시 본인 주장 표현하기 위해 어떻게 하나요?': '意見が対立したとき、自分の主張をどのように伝えますか？',
+    '상사와 생각이 다를 때, 본인만의 표현 방식이 있나요?': '上司と考えが違うとき、自分なりの伝え方はありますか？',
+    '완벽하게 준비되지 않은 상태에서 일을 시작한다면, 어떤 기분이 드나요?': '準備が完全に整っていない状態で仕事を始めるとしたら、どんな気持ちになりますか？',
+    '혼자 vs 팀, 어떤 환경 선호나요?': '一人で働くのとチームで働くのでは、どちらが好みですか？',
+    '본인이 리더라고 가정했을 때, 다루기 힘든 팀원 유형은 어떤 유형이라고 생각하나요?': 'もしご自身がリーダーだとしたら、扱いにくいと感じるのはどんなタイプのメンバーだと思いますか？',
+    '이전 경험 중에서 가장 적응하기 어려웠던 조직 문화와, 반대로 가장 잘 맞았다고 느낀 조직 문화가 있다면 간단히 나눠주실 수 있을까요?': 'これまでの経験の中で最も適応しにくかった組織文化と、逆に最も合っていると感じた組織文化があれば簡単に教えていただけますか？',
+    '규칙이 많은 조직 vs 자유로운 조직 중 어느 쪽이 맞나요?': 'ルールの多い組織と自由な組織では、どちらが合っていますか？',
+    '피크타임 기준, 롤 몇 줄 정도 커버 가능하나요?': 'ピークタイムに、ロールを何本くらい対応できますか？',
+    'Rush 상황에서 실수 줄이는 본인만의 방식이 있나요?': 'ラッシュ時にミスを減らすための自分なりの方法はありますか？',
+    '사시미 작업 시 가장 중요하게 보는 포인트는?': '刺身を扱うときに最も重視するポイントは？',
+    '위생 기준 중 가장 중요하다고 생각하는 건?': '衛生基準の中で最も重要だと思うものは？',
+    'Salmon Sashimi 직접 잡아본 경험이 있나요?': 'サーモンの刺身を自分で引いた経験はありますか？',
+    '필렛 / 슬라이스 / 포션 작업 경험을 구분해서 말할 수 있나요?': 'フィレ／スライス／ポーションの作業経験を分けて説明できますか？',
+    '주문 밀릴 때 우선순위 정하는 기준은?': '注文が溜まったとき、優先順位を決める基準は？',
+    '동시에 몇개 스테이션까지 커버 가능한지?': '同時にいくつのステーションまで対応できますか？',
+    '이전 경력 중 가장 오랫동안 근무하신 회사나 역할이 있으신가요? 그 경험에서 맡으셨던 주요 업무나 책임은 어떤 것이었을까요?': 'これまでの経歴で最も長く勤めた会社や役割はありますか？そこで担当していた主な業務や責任は何でしたか？',
+    '그 직장을 떠나신 이유를 간단히 말씀해주실 수 있을까요? 그만두면서 깨달은게 있으신가요?': 'その職場を離れた理由を簡単に教えていただけますか？辞めるときに気づいたことはありますか？',
+    '상사나 동료들과의 관계는 어땠나요?': '上司や同僚との関係はどうでしたか？',
+    '1 년 뒤 본인의 근무 모습을 상상해 보면?': '1年後の自分の働く姿を想像してみると？',
+    '3 년 뒤 삶의 모습은?': '3年後の生活はどんな姿ですか？',
+    '이 일을 통해 얻고 싶은 것은?': 'この仕事を通じて得たいものは？',
+    '이 일이 커리어에 어떤 의미인가요?': 'この仕事はあなたのキャリアにとってどんな意味がありますか？',
+
+    '자기인식 수준': '自己認識のレベル',
+    '감정조절 능력': '感情コントロール能力',
+    '자기성찰': '自己省察',
+    '방어적 태도 여부': '防御的な態度の有無',
+    '자기인식': '自己認識',
+    '감정조절': '感情コントロール',
+    '문제대처': '問題への対処',
+    '책임감 구조': '責任感の源',
+    '관계 맺는 방식': '人間関係の築き方',
+    '의존형/독립형 성향': '依存型／自立型の傾向',
+    '성장 마인드셋': '成長マインドセット',
+    '문제대처 방식': '問題への対処方法',
+    '회피형 vs 직면형': '回避型 vs 直面型',
+    '피해자 프레임 여부': '被害者意識の有無',
+    '리더형/서포터형/조율자형/실행자형': 'リーダー型／サポーター型／調整役型／実行型',
+    '소통 방식': 'コミュニケーションの取り方',
+    '권위 인식': '権威に対する意識',
+    '수직적 관계 인식': '上下関係に対する意識',
+    '수용성': '受容性',
+    '조직 적응력': '組織への適応力',
+    '규칙 수용력': 'ルールの受容力',
+    '시스템 적응력': '仕組みへの適応力',
+    '문화 적합성': '文化への適合性',
+    '사고방식 유형': '思考タイプ',
+    '속도': 'スピード',
+    '속도 & 정확성': 'スピードと正確さ',
+    '디테일 인식': '細部への意識',
+    '기술/경험 깊이': '技術・経験の深さ',
+    '멀티태스킹': 'マルチタスク',
+    '이직 패턴': '転職のパターン',
+    '반복 사유 여부': '繰り返される退職理由の有無',
+    '관계 유지 능력': '関係を維持する力',
+    '커리어 목표': 'キャリア目標',
+    '모티베이션 유형': 'モチベーションのタイプ',
+    '체류 가능성': '滞在継続の可能性',
+    '조직 장기 적합성': '組織への長期的な適合性',
+
+    /* Notices (both interviews) */
+    'Elleo Group은 법정 규정을 준수하며, 모든 급여는 2주마다 통장으로 자동 입금됩니다. (캐시 지급 없음)': 'Elleo Groupは法定規則を遵守しており、給与はすべて2週間ごとに銀行口座へ自動で振り込まれます。(現金払いはありません)',
+    '연차(Annual Leave) 및 연금(Super)이 법적으로 적용되어 실제 수령 가치는 기본 급여 이상입니다.': '有給休暇(Annual Leave)と年金(Super)が法律に基づき適用されるため、実際の受取額は基本給以上になります。',
+    '나이에 따라 법정 최저 시급(Rate)이 다르게 적용될 수 있음을 안내합니다.': '年齢によって法定最低時給(Rate)が異なる場合がありますのでご了承ください。',
+    '매장 운영 시간은 07:00 ~ 17:30이며, 근무 스케줄은 이에 맞춰 조정됩니다.': '店舗の営業時間は07:00〜17:30で、勤務シフトはこれに合わせて調整されます。',
+    '워킹홀리데이 비자 소지자의 경우, 법적 제한에 따라 주당 최대 근무 시간은 42시간을 초과할 수 없습니다.': 'ワーキングホリデービザをお持ちの方は、法的制限により週の勤務時間が42時間を超えることはできません。',
+    '최초 입사 시 파트타임으로 업무를 시작하며, 업무 성과에 따라 풀타임 전환 및 비자 지원(본사 문의) 기회가 제공됩니다.': '入社時はパートタイムから始まり、業務成果に応じてフルタイムへの転換やビザサポート(本社に要相談)の機会があります。',
+    '근무 시작 후 처음 4시간은 업무 적합성 확인을 위한 트라이얼로 진행되며, 이 시간은 급여가 지급되지 않습니다.': '勤務開始後の最初の4時間は業務適性を確認するためのトライアルで、この時間の給与は支払われません。',
+    '퇴사 시에는 업무 인수인계를 위해 최소 2주 전 사전 통보(Notice)를 원칙으로 합니다.': '退職する際は、業務の引き継ぎのため、原則として最低2週間前までにお知らせ(Notice)ください。',
+    '입사 후 6개월은 프로베이션(수습) 기간이 적용되며, 이 기간에는 회사와 근로자 모두 계약 종료를 결정할 수 있습니다.': '入社後6か月間は試用期間(プロベーション)となり、この期間中は会社・従業員のどちらからも契約を終了することができます。',
+  },
+};
@@ -0,0 +1,55 @@
+import { Stage } from './types';
+
+export const INTERVIEW_STAGES: Stage[] = [
+  {
+    id: 'ts_stage1',
+    title: '1단계: 업무 수행 관찰',
+    description: '트라이얼 시프트를 함께 진행한 담당자가 근무 직후 작성합니다.',
+    sections: [
+      {
+        id: 'ts_s1_a',
+        title: 'A. 위생 및 안전',
+        questions: [
+          { id: 'ts_q1', text: '손 씻기, 장갑 교체, 도마·칼 구분 등 위생 수칙을 지켰나요?', checkpoints: ['위생 수칙 준수'], required: true },
+          { id: 'ts_q2', text: '칼과 장비를 안전하게 다루고, 작업 공간을 정리하며 일했나요?', checkpoints: ['안전 의식', '정리 정돈'] },
+        ]
+      },
+      {
+        id: 'ts_s1_b',
+        title: 'B. 속도와 정확성',
+        questions: [
+          { id: 'ts_q3', text: '맡은 작업(롤, 프렙, 서빙 등)의 속도는 기대 수준과 비교해 어땠나요?', checkpoints: ['작업 속도'] },
+          { id: 'ts_q4', text: '레시피, 포션, 플레이팅 기준을 정확하게 지켰나요?', checkpoints: ['정확성', '기준 준수'] },
+          { id: 'ts_q5', text: '처음 알려준 방법을 얼마나 빨리 익히고, 같은 실수를 반복하지 않았나요?', checkpoints: ['습득 속도'] },
+        ]
+      }
+    ]
+  },
+  {
+    id: 'ts_stage2',
+    title: '2단계: 태도 및 팀워크',
+    sections: [
+      {
+        id: 'ts_s2',
+        questions: [
+          { id: 'ts_q6', text: '팀원들과의 소통(확인, 요청, 보고)은 어땠나요?', checkpoints: ['소통 능력'] },
+          { id: 'ts_q7', text: '주문이 몰리는 시간에 어떻게 대응했나요? 당황하거나 멈추는 모습이 있었나요?', checkpoints: ['압박 상황 대응'] },
+          { id: 'ts_q8', text: '피드백을 받았을 때 반응과 이후 행동 변화는 어땠나요?', checkpoints: ['피드백 수용', '태도'] },
+        ]
+      }
+    ]
+  },
+  {
+    id: 'ts_stage3',
+    title: '3단계: 지원자 소감',
+    sections: [
+      {
+        id: 'ts_s3',
+        questions: [
+          { id: 'ts_q9', text: '오늘 직접 일해보시니 어떠셨나요? 예상과 달랐던 점이 있었나요?', checkpoints: ['기대치 일치'] },
+          { id: 'ts_q10', text: '이 환경에서 계속 일하고 싶은 마음이 드시나요? 걱정되는 부분이 있다면 말씀해 주세요.', checkpoints: ['근무 의지'], required: true },
+        ]
+      }
+    ]
+  }
+];
@@ -0,0 +1,52 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { InterviewTemplate, InterviewType } from '../types';
+import { DEFAULT_TEMPLATES, getTemplates } from '../services/templateService';
+import { useAuth } from './AuthContext';
+
+interface TemplateContextType {
+  templates: InterviewTemplate[];
+  loading: boolean;
+  getTemplate: (type: InterviewType) => InterviewTemplate;
+  reload: () => Promise<void>;
+}
+
+const TemplateContext = createContext<TemplateContextType>({
+  templates: DEFAULT_TEMPLATES,
+  loading: true,
+  getTemplate: () => DEFAULT_TEMPLATES[0],
+  reload: async () => {},
+});
+
+export const TemplateProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<InterviewTemplate[]>(DEFAULT_TEMPLATES);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    try {
+      setTemplates(await getTemplates());
+    } catch (error) {
+      // Keep whatever was loaded last; the bundled banks on first load
+      console.error('Failed to load templates', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Templates are readable by signed-in users only
+  useEffect(() => {
+    if (user) reload();
+  }, [user, reload]);
+
+  const getTemplate = (type: InterviewType) =>
+    templates.find(t => t.id === type) || DEFAULT_TEMPLATES.find(t => t.id === type)!;
+
+  return (
+    <TemplateContext.Provider value={{ templates, loading, getTemplate, reload }}>
+      {children}
+    </TemplateContext.Provider>
+  );
+};
+
+export const useTemplates = () => useContext(TemplateContext);
@@ -0,0 +1,122 @@
+import { AiEvaluation, AiRecommendation } from '../types';
+import { AI_RECOMMENDATIONS } from '../constants';
+
+// Plain JSON Schema so every analysis provider can enforce it. Properties are listed
+// recommendation first, so it shows while the rest streams in.
+export const AI_EVALUATION_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    recommendation: { type: 'string', enum: AI_RECOMMENDATIONS.map(r => r.value) },
+    confidence: { type: 'integer', description: 'How sure you are of the recommendation, 0-100' },
+    strengths: { type: 'array', items: { type: 'string' } },
+    concerns: { type: 'array', items: { type: 'string' } },
+    culturalFit: { type: 'string' },
+    evidence: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          questionId: { type: 'string', description: 'The [id] of the question the note belongs to' },
+          quote: { type: 'string', description: "Exact words from the interviewer's note" },
+        },
+        required: ['questionId', 'quote'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['recommendation', 'confidence', 'strengths', 'concerns', 'culturalFit', 'evidence'],
+  additionalProperties: false,
+};
+
+// Closes whatever a streamed JSON response has left open, so the fields received
+// so far can be shown. Falls back to the last point where every value was complete.
+export const parsePartialJson = (text: string): unknown => {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let safeCut = -1;
+  let safeClosers = '';
+  const pendingClosers = () => [...closers].reverse().join('');
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      closers.push(ch === '{' ? '}' : ']');
+      safeCut = i + 1;
+      safeClosers = pendingClosers();
+    } else if (ch === '}' || ch === ']') {
+      closers.pop();
+      safeCut = i + 1;
+      safeClosers = pendingClosers();
+    } else if (ch === ',') {
+      safeCut = i;
+      safeClosers = pendingClosers();
+    }
+  }
+
+  const attempts = [text + (inString ? '"' : '') + pendingClosers()];
+  if (safeCut >= 0) attempts.push(text.slice(0, safeCut) + safeClosers);
+  for (const attempt of attempts) {
+    try {
+      return JSON.parse(attempt);
+    } catch {
+      // Cut off mid-token; try the last complete point
+    }
+  }
+  return undefined;
+};
+
+const asStrings = (value: unknown[]): string[] =>
+  value.filter((item): item is string => typeof item === 'string' && !!item.trim());
+
+// Keeps only well-formed fields, so partial or malformed responses can still be shown
+export const normalizeEvaluation = (value: unknown): Partial<AiEvaluation> => {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const evaluation: Partial<AiEvaluation> = {};
+
+  if (AI_RECOMMENDATIONS.some(r => r.value === raw.recommendation)) {
+    evaluation.recommendation = raw.recommendation as AiRecommendation;
+  }
+  if (typeof raw.confidence === 'number' && Number.isFinite(raw.confidence)) {
+    evaluation.confidence = Math.min(100, Math.max(0, Math.round(raw.confidence)));
+  }
+  if (Array.isArray(raw.strengths)) evaluation.strengths = asStrings(raw.strengths);
+  if (Array.isArray(raw.concerns)) evaluation.concerns = asStrings(raw.concerns);
+  if (typeof raw.culturalFit === 'string') evaluation.culturalFit = raw.culturalFit;
+  if (Array.isArray(raw.evidence)) {
+    evaluation.evidence = raw.evidence
+      .filter((e): e is { questionId: string; quote: string } =>
+        !!e && typeof e.questionId === 'string' && typeof e.quote === 'string' && !!e.quote.trim())
+      .map(e => ({ questionId: e.questionId, quote: e.quote }));
+  }
+  return evaluation;
+};
+
+export const isCompleteEvaluation = (evaluation: Partial<AiEvaluation>): evaluation is AiEvaluation =>
+  !!evaluation.recommendation &&
+  evaluation.confidence !== undefined &&
+  !!evaluation.strengths &&
+  !!evaluation.concerns &&
+  evaluation.culturalFit !== undefined &&
+  !!evaluation.evidence;
+
+// Plain text stored as aiSummary; questionTexts labels the evidence (see getAnswerTexts)
+export const formatEvaluationSummary = (evaluation: AiEvaluation, questionTexts: Map<string, string>): string => {
+  const bullets = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+  return [
+    `### 종합 의견: ${evaluation.recommendation} (확신도 ${evaluation.confidence}%)`,
+    `### 핵심 강점\n${bullets(evaluation.strengths)}`,
+    `### 우려 사항\n${bullets(evaluation.concerns)}`,
+    `### 조직 적합성\n${evaluation.culturalFit}`,
+    `### 근거\n${bullets(evaluation.evidence.map(e => `${questionTexts.get(e.questionId) || e.questionId}: "${e.quote}"`))}`,
+  ].join('\n\n');
+};
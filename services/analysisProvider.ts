@@ -0,0 +1,65 @@
+import { AnalysisConfig, appConfig } from './config';
+import { createGeminiAnalysisProvider } from './geminiAnalysisProvider';
+import { createOpenAiAnalysisProvider } from './openAiAnalysisProvider';
+import { createMockAnalysisProvider } from './mockAnalysisProvider';
+
+// A file sent along with the prompt, e.g. a resume PDF or photo
+export interface AnalysisAttachment {
+  fileName: string;
+  mimeType: string;
+  data: string; // base64, without the data: URL prefix
+}
+
+export interface AnalysisRequest {
+  name: string; // Names the response shape, e.g. 'interview_evaluation'
+  prompt: string;
+  schema: Record<string, unknown>; // JSON Schema the response must follow
+  attachment?: AnalysisAttachment;
+  signal?: AbortSignal;
+}
+
+export interface AnalysisProvider {
+  // Yields the JSON response in chunks as it is generated. Failures are thrown as
+  // AnalysisProviderError; an aborted signal ends the stream with whatever error the
+  // transport raises, so callers check signal.aborted first.
+  streamJson: (request: AnalysisRequest) => AsyncIterable<string>;
+}
+
+export type AnalysisErrorCode = 'not_configured' | 'auth' | 'rate_limited' | 'unavailable' | 'network';
+
+export class AnalysisProviderError extends Error {
+  constructor(public readonly code: AnalysisErrorCode, message: string) {
+    super(message);
+    this.name = 'AnalysisProviderError';
+  }
+}
+
+// Shown to the interviewer; every caller of a provider surfaces these the same way
+export const ANALYSIS_ERROR_MESSAGES: Record<AnalysisErrorCode, string> = {
+  not_configured: "AI API 키 또는 서버 주소가 설정되지 않았습니다. 환경 변수를 확인해주세요.",
+  auth: "AI API 키가 올바르지 않거나 권한이 없습니다.",
+  rate_limited: "AI 요청 한도를 초과했습니다. 잠시 후 다시 시도해주세요.",
+  unavailable: "AI 서버가 응답하지 않습니다. 잠시 후 다시 시도해주세요.",
+  network: "AI 서버와의 연결이 끊겼습니다.",
+};
+
+// Maps an HTTP status from any provider onto the error states the form shows
+export const errorFromStatus = (status: number, message: string): AnalysisProviderError => {
+  if (status === 401 || status === 403) return new AnalysisProviderError('auth', message);
+  if (status === 429) return new AnalysisProviderError('rate_limited', message);
+  if (status >= 500) return new AnalysisProviderError('unavailable', message);
+  return new AnalysisProviderError('network', message);
+};
+
+export const createAnalysisProvider = (config: AnalysisConfig): AnalysisProvider => {
+  switch (config.provider) {
+    case 'gemini':
+      return createGeminiAnalysisProvider(config);
+    case 'openai':
+      return createOpenAiAnalysisProvider(config);
+    case 'mock':
+      return createMockAnalysisProvider();
+  }
+};
+
+export const analysisProvider = createAnalysisProvider(appConfig.analysis);
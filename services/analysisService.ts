@@ -0,0 +1,129 @@
+import { AiEvaluation, InterviewRecord } from '../types';
+import { getFollowUpAnswerKey, getRecordTemplate, getTemplateQuestions } from './templateService';
+import { formatQuestionRatings } from './ratings';
+import { computeScorecard } from './scorecard';
+import { INTERVIEW_LANGUAGES } from '../constants';
+import { getInterviewType } from './interviewTypes';
+import { AI_EVALUATION_SCHEMA, isCompleteEvaluation, normalizeEvaluation, parsePartialJson } from './aiEvaluation';
+import { ANALYSIS_ERROR_MESSAGES, AnalysisErrorCode as ProviderErrorCode, AnalysisProviderError, analysisProvider } from './analysisProvider';
+
+export type AnalysisOutcome = 'completed' | 'cancelled' | 'failed';
+
+export interface AnalysisResult {
+  outcome: AnalysisOutcome;
+  // Fields received so far; complete only when outcome is 'completed'
+  evaluation: Partial<AiEvaluation>;
+  error?: string; // Shown to the interviewer when failed
+  errorCode?: AnalysisErrorCode;
+}
+
+// Provider failures, plus a response that never became a complete evaluation
+export type AnalysisErrorCode = ProviderErrorCode | 'invalid_response';
+
+// Receives the fields parsed so far and the number of characters streamed
+export type AnalysisProgress = (evaluation: Partial<AiEvaluation>, received: number) => void;
+
+const failed = (error: string, evaluation: Partial<AiEvaluation> = {}, errorCode?: AnalysisErrorCode): AnalysisResult =>
+  ({ outcome: 'failed', evaluation, error, errorCode });
+
+// Streams the evaluation, reporting the fields parsed so far as they arrive.
+// Cancelling through signal, or a stream that breaks off, keeps the partial fields.
+export const streamInterviewAnalysis = async (
+  record: InterviewRecord,
+  onProgress: AnalysisProgress,
+  signal?: AbortSignal
+): Promise<AnalysisResult> => {
+  // Question ids are only unique within a template, so resolve them against
+  // the exact version the interview was run with
+  let template;
+  try {
+    template = await getRecordTemplate(record);
+  } catch (error) {
+    console.error("Template lookup failed:", error);
+    return failed("이 인터뷰에 사용된 질문 템플릿을 불러올 수 없습니다.");
+  }
+  const allQuestions = getTemplateQuestions(template.stages);
+
+  // Construct a prompt context
+  const interviewType = getInterviewType(record.basicInfo.interviewType);
+  let context = `Interview Type: ${interviewType.name}\n`;
+  context += `Candidate Name: ${record.basicInfo.name}\n`;
+  context += `Position: ${record.basicInfo.position}\n`;
+  if (record.language && record.language !== 'ko') {
+    // Questions were asked in another language, so the notes may quote the candidate in it
+    context += `Interview Language: ${INTERVIEW_LANGUAGES.find(l => l.value === record.language)?.label}\n`;
+  }
+  const scorecard = computeScorecard(template, record.ratings, record);
+  if (scorecard.overall !== null) {
+    context += `Weighted Score: ${scorecard.overall}/100${scorecard.threshold !== null ? ` (pass threshold ${scorecard.threshold})` : ''}\n`;
+  }
+  if (record.candidateProfile?.workHistory.length) {
+    // Confirmed by the interviewer from the resume; lets the model check the career answers against it
+    context += `Resume Work History:\n`;
+    record.candidateProfile.workHistory.forEach(entry => {
+      context += `  - ${[entry.employer, entry.role, entry.period].filter(Boolean).join(' / ')}${entry.description ? `: ${entry.description}` : ''}\n`;
+    });
+  }
+  context += `Interview Content:\n\n`;
+
+  let hasContent = false;
+
+  // A question counts once it has a note, a follow-up note or any checkpoint rating
+  allQuestions.forEach(question => {
+    const answer = (record.answers[question.id] || '').trim();
+    const ratings = formatQuestionRatings(record.ratings?.[question.id], template.ratingScale);
+    const followUps = (question.followUps || [])
+      .map(f => ({ text: f.text, note: (record.answers[getFollowUpAnswerKey(f.id)] || '').trim() }))
+      .filter(f => f.note);
+    if (!answer && !ratings && followUps.length === 0) return;
+
+    hasContent = true;
+    context += `Q [${question.id}]: ${question.text}\n`;
+    context += `Checkpoints: ${question.checkpoints.join(', ')}\n`;
+    if (ratings) context += `Checkpoint Ratings: ${ratings}\n`;
+    context += `Interviewer Note/Answer: ${answer || '(no note)'}\n`;
+    followUps.forEach(f => {
+      context += `  Follow-up Q: ${f.text}\n  Follow-up Note: ${f.note}\n`;
+    });
+    context += `\n`;
+  });
+
+  if (!hasContent) {
+    return failed("분석할 답변 메모나 평가가 없습니다.");
+  }
+
+  const prompt = `
+    You are an expert HR Interviewer for the Elleo Group (a premium food & beverage hospitality group). 
+    ${interviewType.analysisGuide}
+
+    Write every text field in Korean. Each evidence item quotes the interviewer's note word for word
+    and gives the [id] of the question it was written under.
+    Keep it professional, concise, and objective.
+    
+    ${context}
+  `;
+
+  let text = '';
+  let evaluation: Partial<AiEvaluation> = {};
+  try {
+    for await (const chunk of analysisProvider.streamJson({ name: 'interview_evaluation', prompt, schema: AI_EVALUATION_SCHEMA, signal })) {
+      if (signal?.aborted) break;
+      text += chunk;
+      evaluation = normalizeEvaluation(parsePartialJson(text));
+      onProgress(evaluation, text.length);
+    }
+  } catch (error) {
+    if (signal?.aborted) return { outcome: 'cancelled', evaluation };
+    const code = error instanceof AnalysisProviderError ? error.code : 'network';
+    if (!(error instanceof AnalysisProviderError)) console.error("Analysis Error:", error);
+    const message = ANALYSIS_ERROR_MESSAGES[code];
+    return failed(code === 'network' ? `${message} 받은 부분까지만 표시합니다.` : message, evaluation, code);
+  }
+
+  if (signal?.aborted) return { outcome: 'cancelled', evaluation };
+  if (!isCompleteEvaluation(evaluation)) {
+    console.error("Incomplete AI evaluation:", text);
+    return failed("AI가 형식에 맞는 평가를 돌려주지 않았습니다. 다시 분석해주세요.", evaluation, 'invalid_response');
+  }
+  return { outcome: 'completed', evaluation };
+};
@@ -0,0 +1,86 @@
+import { supabase } from './supabase';
+import { appConfig } from './config';
+
+// The parts of a signed-in user the app relies on. A Supabase User satisfies it.
+export interface AuthUser {
+  id: string;
+  email?: string;
+}
+
+export interface AuthService {
+  getUser: () => Promise<AuthUser | null>;
+  // Called with the new user on every sign-in and sign-out; returns an unsubscribe
+  onUserChange: (listener: (user: AuthUser | null) => void) => () => void;
+  signIn: () => Promise<void>;
+  signOut: () => Promise<void>;
+  getRole: (userId: string) => Promise<string | null>;
+}
+
+const createSupabaseAuthService = (): AuthService => ({
+  getUser: async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user ?? null;
+  },
+  onUserChange: (listener) => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      listener(session?.user ?? null);
+    });
+    return () => subscription.unsubscribe();
+  },
+  signIn: async () => {
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider: 'google',
+      options: {
+        redirectTo: window.location.origin,
+        queryParams: {
+          access_type: 'offline',
+          prompt: 'consent',
+        },
+      },
+    });
+    if (error) throw error;
+  },
+  signOut: async () => {
+    await supabase.auth.signOut();
+  },
+  getRole: async (userId) => {
+    const { data } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', userId)
+      .single();
+    return data?.role ?? null;
+  },
+});
+
+const LOCAL_SESSION_KEY = 'elleo_local_session';
+
+// A fixed demo user for the local and memory backends. Records never leave the
+// device there, so the user administers its own templates.
+const LOCAL_USER: AuthUser = { id: 'local-demo-user', email: 'demo@localhost' };
+
+const createLocalAuthService = (): AuthService => {
+  const listeners = new Set<(user: AuthUser | null) => void>();
+  const notify = (user: AuthUser | null) => listeners.forEach(listener => listener(user));
+
+  return {
+    getUser: async () => (localStorage.getItem(LOCAL_SESSION_KEY) ? LOCAL_USER : null),
+    onUserChange: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    signIn: async () => {
+      localStorage.setItem(LOCAL_SESSION_KEY, LOCAL_USER.id);
+      notify(LOCAL_USER);
+    },
+    signOut: async () => {
+      localStorage.removeItem(LOCAL_SESSION_KEY);
+      notify(null);
+    },
+    getRole: async () => 'admin',
+  };
+};
+
+// Sign-in follows the record backend, so a local or memory setup needs no Supabase project
+export const authService: AuthService =
+  appConfig.recordBackend === 'supabase' ? createSupabaseAuthService() : createLocalAuthService();
@@ -0,0 +1,65 @@
+import { BasicInfo, InterviewRecord, Question, QuestionRatings, RecordStatus, Stage } from '../types';
+import { getFollowUpAnswerKey, isSectionShown } from './templateService';
+
+export interface CompletionContext {
+  basicInfo: Partial<BasicInfo>;
+  answers: Record<string, string>;
+  ratings: Record<string, QuestionRatings>;
+}
+
+// A required item that is still open: a question without a note or rating, or an unticked consent
+export interface MissingItem {
+  stageId: string;
+  sectionId: string;
+  questionId?: string; // Unset for consents
+  label: string;
+}
+
+export interface StageProgress {
+  stageId: string;
+  done: number;
+  total: number;
+  missing: MissingItem[];
+}
+
+export const getRecordStatus = (record: Pick<InterviewRecord, 'status'>): RecordStatus => record.status ?? 'completed';
+
+// A note on the question or one of its follow-ups, or any checkpoint rating
+export const isQuestionAnswered = (question: Question, context: CompletionContext): boolean =>
+  !!context.answers[question.id]?.trim() ||
+  !!question.followUps?.some(f => context.answers[getFollowUpAnswerKey(f.id)]?.trim()) ||
+  Object.values(context.ratings[question.id] || {}).some(r => r.score !== undefined || r.redFlag);
+
+export const isConsentGiven = (sectionId: string, answers: Record<string, string>): boolean =>
+  answers[`consent-${sectionId}`] === 'true';
+
+// Questions and consents of the sections currently shown; hidden sections are not required
+export const getStageProgress = (stage: Stage, context: CompletionContext): StageProgress => {
+  let done = 0;
+  let total = 0;
+  const missing: MissingItem[] = [];
+
+  stage.sections
+    .filter(section => isSectionShown(section, context))
+    .forEach(section => {
+      section.questions?.forEach(question => {
+        total++;
+        if (isQuestionAnswered(question, context)) {
+          done++;
+        } else if (question.required) {
+          missing.push({ stageId: stage.id, sectionId: section.id, questionId: question.id, label: question.text });
+        }
+      });
+
+      if (section.requireConsent) {
+        total++;
+        if (isConsentGiven(section.id, context.answers)) {
+          done++;
+        } else {
+          missing.push({ stageId: stage.id, sectionId: section.id, label: `${section.title || stage.title} 최종 동의` });
+        }
+      }
+    });
+
+  return { stageId: stage.id, done, total, missing };
+};
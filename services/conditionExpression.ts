@@ -0,0 +1,280 @@
+import { BasicInfo, Section, Stage } from '../types';
+
+// Section conditions are a small expression language evaluated against the
+// interview being filled in. No JavaScript is ever evaluated.
+//
+//   visaStatus == 'International Student'
+//   position contains 'Chef' and hasSushiExperience
+//   answer(q2_1) != '' || not (store == 'Sushia CBD')
+//
+// Operands: BasicInfo fields, answer(<questionId>), 'strings', numbers, true/false.
+// Operators: == != (=== !== accepted), < <= > >=, contains, and/&&, or/||, not/!, ( ).
+
+export const CONDITION_FIELDS: (keyof BasicInfo)[] = [
+  'name', 'position', 'store', 'date', 'interviewer', 'hasSushiExperience',
+  'visaStatus', 'visaExpiryDate', 'email', 'mobile', 'birthDate', 'interviewType',
+];
+
+type Value = string | number | boolean;
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'contains';
+
+export type ConditionNode =
+  | { kind: 'literal'; value: Value }
+  | { kind: 'field'; field: keyof BasicInfo }
+  | { kind: 'answer'; questionId: string }
+  | { kind: 'not'; operand: ConditionNode }
+  | { kind: 'logical'; operator: 'and' | 'or'; left: ConditionNode; right: ConditionNode }
+  | { kind: 'compare'; operator: ComparisonOperator; left: ConditionNode; right: ConditionNode };
+
+export interface ConditionContext {
+  basicInfo: Partial<BasicInfo>;
+  answers: Record<string, string>;
+}
+
+export class ConditionSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} (${position + 1}번째 글자)`);
+    this.name = 'ConditionSyntaxError';
+  }
+}
+
+type Token =
+  | { type: 'string' | 'ident'; value: string; position: number }
+  | { type: 'number'; value: number; position: number }
+  | { type: 'op'; value: string; position: number };
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '(', ')'];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "'" || char === '"') {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        value += source[i++];
+      }
+      if (i >= source.length) throw new ConditionSyntaxError('닫히지 않은 문자열', start);
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+    } else if (/[0-9]/.test(char)) {
+      const match = source.slice(i).match(/^\d+(\.\d+)?/)!;
+      tokens.push({ type: 'number', value: Number(match[0]), position: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = source.slice(i).match(/^[A-Za-z_][\w-]*/)!;
+      tokens.push({ type: 'ident', value: match[0], position: i });
+      i += match[0].length;
+    } else {
+      const op = OPERATORS.find(o => source.startsWith(o, i));
+      if (!op) throw new ConditionSyntaxError(`알 수 없는 문자 '${char}'`, i);
+      tokens.push({ type: 'op', value: op, position: i });
+      i += op.length;
+    }
+  }
+  return tokens;
+};
+
+// A Map, so identifiers like 'constructor' are not found on an object prototype
+const COMPARISONS = new Map<string, ComparisonOperator>([
+  ['==', '=='], ['===', '=='], ['!=', '!='], ['!==', '!='],
+  ['<', '<'], ['<=', '<='], ['>', '>'], ['>=', '>='], ['contains', 'contains'],
+]);
+
+// Recursive descent: or -> and -> not -> comparison -> operand
+export const parseCondition = (source: string): ConditionNode => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const endPosition = () => source.length;
+  const isWord = (token: Token | undefined, ...words: string[]) =>
+    !!token && (token.type === 'op' || token.type === 'ident') && words.includes(token.value as string);
+
+  const expect = (value: string) => {
+    const token = peek();
+    if (!isWord(token, value)) {
+      throw new ConditionSyntaxError(`'${value}'이(가) 필요합니다`, token?.position ?? endPosition());
+    }
+    index++;
+  };
+
+  const parseOperand = (): ConditionNode => {
+    const token = peek();
+    if (!token) throw new ConditionSyntaxError('조건이 끝나지 않았습니다', endPosition());
+    index++;
+
+    if (token.type === 'string' || token.type === 'number') {
+      return { kind: 'literal', value: token.value };
+    }
+    if (token.type === 'op' && token.value === '(') {
+      const inner = parseOr();
+      expect(')');
+      return inner;
+    }
+    if (token.type === 'ident') {
+      if (token.value === 'true' || token.value === 'false') {
+        return { kind: 'literal', value: token.value === 'true' };
+      }
+      if (token.value === 'answer') {
+        expect('(');
+        const id = peek();
+        if (!id || (id.type !== 'ident' && id.type !== 'string')) {
+          throw new ConditionSyntaxError('answer()에 질문 ID가 필요합니다', id?.position ?? endPosition());
+        }
+        index++;
+        expect(')');
+        return { kind: 'answer', questionId: String(id.value) };
+      }
+      if (CONDITION_FIELDS.includes(token.value as keyof BasicInfo)) {
+        return { kind: 'field', field: token.value as keyof BasicInfo };
+      }
+      throw new ConditionSyntaxError(`알 수 없는 항목 '${token.value}'`, token.position);
+    }
+    throw new ConditionSyntaxError(`예상하지 못한 '${token.value}'`, token.position);
+  };
+
+  const parseComparison = (): ConditionNode => {
+    const left = parseOperand();
+    const token = peek();
+    const operator = token && (token.type === 'op' || token.type === 'ident') ? COMPARISONS.get(token.value) : undefined;
+    if (operator) {
+      index++;
+      return { kind: 'compare', operator, left, right: parseOperand() };
+    }
+    return left;
+  };
+
+  const parseNot = (): ConditionNode => {
+    if (isWord(peek(), '!', 'not')) {
+      index++;
+      return { kind: 'not', operand: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): ConditionNode => {
+    let node = parseNot();
+    while (isWord(peek(), '&&', 'and')) {
+      index++;
+      node = { kind: 'logical', operator: 'and', left: node, right: parseNot() };
+    }
+    return node;
+  };
+
+  const parseOr = (): ConditionNode => {
+    let node = parseAnd();
+    while (isWord(peek(), '||', 'or')) {
+      index++;
+      node = { kind: 'logical', operator: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const root = parseOr();
+  const extra = peek();
+  if (extra) throw new ConditionSyntaxError(`예상하지 못한 '${extra.value}'`, extra.position);
+  return root;
+};
+
+const evaluateValue = (node: ConditionNode, context: ConditionContext): Value => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field':
+      return context.basicInfo[node.field] ?? '';
+    case 'answer':
+      return Object.hasOwn(context.answers, node.questionId) ? (context.answers[node.questionId] || '').trim() : '';
+    case 'not':
+      return !isTruthy(evaluateValue(node.operand, context));
+    case 'logical': {
+      const left = isTruthy(evaluateValue(node.left, context));
+      if (node.operator === 'and') return left && isTruthy(evaluateValue(node.right, context));
+      return left || isTruthy(evaluateValue(node.right, context));
+    }
+    case 'compare':
+      return compare(node.operator, evaluateValue(node.left, context), evaluateValue(node.right, context));
+  }
+};
+
+const isTruthy = (value: Value): boolean =>
+  typeof value === 'string' ? value !== '' : !!value;
+
+const asNumber = (value: Value): number | undefined =>
+  typeof value === 'number' ? value : typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : undefined;
+
+const compare = (operator: ComparisonOperator, left: Value, right: Value): boolean => {
+  if (operator === 'contains') {
+    return String(left).toLowerCase().includes(String(right).toLowerCase());
+  }
+  if (operator === '==' || operator === '!=') {
+    const equal = typeof left === typeof right ? left === right : String(left) === String(right);
+    return operator === '==' ? equal : !equal;
+  }
+
+  // Ordering is numeric when both sides are numbers, otherwise by text (YYYY-MM-DD dates sort correctly)
+  const [x, y] = [asNumber(left), asNumber(right)];
+  const order = x !== undefined && y !== undefined ? x - y : String(left).localeCompare(String(right));
+  switch (operator) {
+    case '<': return order < 0;
+    case '<=': return order <= 0;
+    case '>': return order > 0;
+    case '>=': return order >= 0;
+  }
+};
+
+export const evaluateCondition = (node: ConditionNode, context: ConditionContext): boolean =>
+  isTruthy(evaluateValue(node, context));
+
+// Conditions are shared by every render, so each distinct string is parsed once
+const parseCache = new Map<string, ConditionNode | ConditionSyntaxError>();
+
+const parseCached = (condition: string): ConditionNode | ConditionSyntaxError => {
+  let parsed = parseCache.get(condition);
+  if (!parsed) {
+    try {
+      parsed = parseCondition(condition);
+    } catch (error) {
+      parsed = error instanceof ConditionSyntaxError ? error : new ConditionSyntaxError(String(error), 0);
+    }
+    parseCache.set(condition, parsed);
+  }
+  return parsed;
+};
+
+// A section with a broken condition stays visible so no questions go missing mid-interview
+export const isSectionVisible = (section: Section, context: ConditionContext): boolean => {
+  const condition = section.condition?.trim();
+  if (!condition) return true;
+
+  const parsed = parseCached(condition);
+  return parsed instanceof ConditionSyntaxError ? true : evaluateCondition(parsed, context);
+};
+
+export const getConditionError = (condition: string | undefined): string | null => {
+  const trimmed = condition?.trim();
+  if (!trimmed) return null;
+  const parsed = parseCached(trimmed);
+  return parsed instanceof ConditionSyntaxError ? parsed.message : null;
+};
+
+export interface ConditionError {
+  stageId: string;
+  sectionId: string;
+  condition: string;
+  message: string;
+}
+
+export const validateTemplateConditions = (stages: Stage[]): ConditionError[] =>
+  stages.flatMap(stage => stage.sections.flatMap(section => {
+    const message = getConditionError(section.condition);
+    return message ? [{ stageId: stage.id, sectionId: section.id, condition: section.condition!, message }] : [];
+  }));
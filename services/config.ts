@@ -0,0 +1,82 @@
+/// <reference types="vite/client" />
+
+export type RecordBackend = 'supabase' | 'local' | 'memory';
+
+const RECORD_BACKENDS: RecordBackend[] = ['supabase', 'local', 'memory'];
+
+const hasSupabaseEnv = !!import.meta.env.VITE_SUPABASE_URL && !!import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+// VITE_RECORD_BACKEND picks where interview records are stored.
+// Without it, Supabase is used when configured and localStorage otherwise,
+// so the app can be demoed without a live project. Sign-in and resume files
+// follow the same switch (see authService.ts and resumeStorage.ts).
+const resolveRecordBackend = (): RecordBackend => {
+  const configured = import.meta.env.VITE_RECORD_BACKEND as string | undefined;
+  if (configured) {
+    if (RECORD_BACKENDS.includes(configured as RecordBackend)) {
+      return configured as RecordBackend;
+    }
+    console.warn(`⚠️ Unknown VITE_RECORD_BACKEND "${configured}". Falling back to the default backend.`);
+  }
+  return hasSupabaseEnv ? 'supabase' : 'local';
+};
+
+export type AnalysisProviderName = 'gemini' | 'openai' | 'mock';
+
+const ANALYSIS_PROVIDERS: AnalysisProviderName[] = ['gemini', 'openai', 'mock'];
+
+const DEFAULT_ANALYSIS_MODELS: Record<AnalysisProviderName, string> = {
+  gemini: 'gemini-3-flash-preview',
+  openai: 'gpt-4o-mini',
+  mock: 'mock',
+};
+
+const DEFAULT_ANALYSIS_TEMPERATURE = 0.3;
+
+export interface AnalysisConfig {
+  provider: AnalysisProviderName;
+  model: string;
+  temperature: number;
+  apiKey?: string;
+  baseUrl?: string; // openai only: any OpenAI-compatible server, e.g. a local Ollama or LM Studio
+}
+
+// VITE_AI_PROVIDER picks the model behind the AI analysis; VITE_AI_MODEL and
+// VITE_AI_TEMPERATURE tune it. Without a provider, Gemini is used when its key is
+// set and the canned mock otherwise, so the analysis flow works offline.
+const resolveAnalysisConfig = (): AnalysisConfig => {
+  const env = import.meta.env;
+  let provider: AnalysisProviderName = env.VITE_GEMINI_API_KEY ? 'gemini' : 'mock';
+  const configured = env.VITE_AI_PROVIDER as string | undefined;
+  if (configured) {
+    if (ANALYSIS_PROVIDERS.includes(configured as AnalysisProviderName)) {
+      provider = configured as AnalysisProviderName;
+    } else {
+      console.warn(`⚠️ Unknown VITE_AI_PROVIDER "${configured}". Falling back to the default provider.`);
+    }
+  }
+
+  let temperature = DEFAULT_ANALYSIS_TEMPERATURE;
+  const configuredTemperature = env.VITE_AI_TEMPERATURE as string | undefined;
+  if (configuredTemperature) {
+    const parsed = Number(configuredTemperature);
+    if (parsed >= 0 && parsed <= 2) {
+      temperature = parsed;
+    } else {
+      console.warn(`⚠️ VITE_AI_TEMPERATURE "${configuredTemperature}" is not between 0 and 2. Using ${DEFAULT_ANALYSIS_TEMPERATURE}.`);
+    }
+  }
+
+  return {
+    provider,
+    model: (env.VITE_AI_MODEL as string | undefined) || DEFAULT_ANALYSIS_MODELS[provider],
+    temperature,
+    apiKey: provider === 'gemini' ? env.VITE_GEMINI_API_KEY : env.VITE_AI_API_KEY,
+    baseUrl: (env.VITE_AI_BASE_URL as string | undefined) || (provider === 'openai' ? 'https://api.openai.com/v1' : undefined),
+  };
+};
+
+export const appConfig = {
+  recordBackend: resolveRecordBackend(),
+  analysis: resolveAnalysisConfig(),
+};
@@ -0,0 +1,192 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BasicInfo, InterviewRecord, InterviewTemplate } from '../types';
+import { VISA_STATUSES } from '../constants';
+import { isSamePosition } from './templateService';
+
+export type ImportField = 'name' | 'email' | 'mobile' | 'position' | 'store' | 'date' | 'visaStatus';
+
+// CSV column index per field; undefined when the field is not mapped
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { key: 'name', label: '지원자명', required: true, aliases: ['name', 'full name', 'candidate', 'applicant', '이름', '지원자', '지원자명', '성명'] },
+  { key: 'email', label: '이메일', aliases: ['email', 'e-mail', 'email address', '이메일'] },
+  { key: 'mobile', label: '연락처 (Mobile)', aliases: ['mobile', 'phone', 'phone number', 'contact', '연락처', '전화번호', '휴대폰'] },
+  { key: 'position', label: '지원 포지션', aliases: ['position', 'role', 'job', 'job title', '포지션', '지원 포지션', '직무'] },
+  { key: 'store', label: '지원 매장', aliases: ['store', 'location', 'site', 'branch', '매장', '지원 매장', '지점'] },
+  { key: 'date', label: '면접일자', aliases: ['date', 'interview date', '면접일', '면접일자', '날짜'] },
+  { key: 'visaStatus', label: '비자 상태', aliases: ['visa', 'visa status', 'work rights', '비자', '비자 상태'] },
+];
+
+export interface ImportRow {
+  line: number; // 1-based line in the CSV, for error messages
+  basicInfo: Partial<BasicInfo>;
+  errors: string[];
+  warnings: string[];
+}
+
+// RFC 4180 parser: quoted fields, escaped quotes, commas and newlines inside quotes
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_\-]+/g, ' ');
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map(normalizeHeader);
+
+  IMPORT_FIELDS.forEach(field => {
+    const index = normalized.findIndex(h => field.aliases.includes(h));
+    if (index !== -1) mapping[field.key] = index;
+  });
+  return mapping;
+};
+
+// Accepts YYYY-MM-DD, and D/M/YYYY as exported by Australian job boards
+const normalizeDate = (value: string): string | undefined => {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const dmy = value.match(/^(\d{1,2})[\/.](\d{1,2})[\/.](\d{4})$/);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : dmy
+      ? [dmy[3], dmy[2], dmy[1]]
+      : [];
+  if (!year) return undefined;
+
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const parsed = new Date(`${date}T00:00:00`);
+  return !isNaN(parsed.getTime()) && parsed.getMonth() + 1 === Number(month) ? date : undefined;
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// positions is the picklist of the template the drafts will use; matching entries
+// take its spelling, and others are kept as entered but flagged in the preview
+export const buildImportRows = (dataRows: string[][], mapping: ColumnMapping, positions: string[]): ImportRow[] => {
+  const seenEmails = new Map<string, number>();
+
+  return dataRows.map((cells, index) => {
+    const line = index + 2; // header is line 1
+    const value = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] || '').trim();
+    };
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const basicInfo: Partial<BasicInfo> = {
+      name: value('name'),
+      email: value('email'),
+      mobile: value('mobile'),
+      store: value('store'),
+    };
+
+    if (!basicInfo.name) errors.push('지원자명이 없습니다.');
+
+    if (basicInfo.email) {
+      if (!EMAIL_PATTERN.test(basicInfo.email)) {
+        errors.push(`이메일 형식이 올바르지 않습니다: ${basicInfo.email}`);
+      } else {
+        const key = basicInfo.email.toLowerCase();
+        if (seenEmails.has(key)) warnings.push(`${seenEmails.get(key)}행과 이메일이 중복됩니다.`);
+        else seenEmails.set(key, line);
+      }
+    }
+
+    const rawDate = value('date');
+    if (rawDate) {
+      const date = normalizeDate(rawDate);
+      if (date) basicInfo.date = date;
+      else errors.push(`날짜 형식을 알 수 없습니다: ${rawDate}`);
+    }
+
+    const rawPosition = value('position');
+    if (rawPosition) {
+      const position = positions.find(p => isSamePosition(p, rawPosition));
+      basicInfo.position = position || rawPosition;
+      if (!position) warnings.push(`포지션 "${rawPosition}"은 목록에 없습니다. 입력된 그대로 저장됩니다.`);
+    }
+
+    const rawVisa = value('visaStatus');
+    if (rawVisa) {
+      const visa = VISA_STATUSES.find(v => v.toLowerCase() === rawVisa.toLowerCase());
+      if (visa) {
+        basicInfo.visaStatus = visa;
+      } else {
+        basicInfo.visaStatus = 'Others';
+        warnings.push(`알 수 없는 비자 상태 "${rawVisa}"는 Others로 저장됩니다.`);
+      }
+    }
+
+    return { line, basicInfo, errors, warnings };
+  });
+};
+
+export interface DraftDefaults {
+  template: InterviewTemplate;
+  interviewer: string;
+  date: string;
+}
+
+// An empty interview for an imported applicant, ready to be opened from the list
+export const createDraftRecord = (row: ImportRow, defaults: DraftDefaults): InterviewRecord => ({
+  id: uuidv4(),
+  basicInfo: {
+    name: row.basicInfo.name || '',
+    position: row.basicInfo.position || '',
+    store: row.basicInfo.store || '',
+    date: row.basicInfo.date || defaults.date,
+    interviewer: defaults.interviewer,
+    hasSushiExperience: false,
+    visaStatus: row.basicInfo.visaStatus || '',
+    email: row.basicInfo.email || '',
+    mobile: row.basicInfo.mobile || '',
+    interviewType: defaults.template.id,
+  },
+  answers: {},
+  outcome: 'pending',
+  status: 'draft',
+  templateId: defaults.template.id,
+  templateVersion: defaults.template.version,
+  createdAt: Date.now(),
+});
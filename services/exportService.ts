@@ -0,0 +1,163 @@
+import writeXlsxFile from 'write-excel-file/browser';
+import { BasicInfo, InterviewRecord, InterviewTemplate, RecordQuery } from '../types';
+import { CANDIDATE_OUTCOMES } from '../constants';
+import { recordRepository } from './recordRepository';
+import { getInterviewType } from './interviewTypes';
+import { getFollowUpAnswerKey } from './templateService';
+
+const EXPORT_PAGE_SIZE = 200;
+
+export interface ExportOptions {
+  includeAiSummary: boolean;
+}
+
+export interface ExportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+const BASIC_INFO_COLUMNS: { key: keyof BasicInfo; label: string }[] = [
+  { key: 'name', label: '지원자명' },
+  { key: 'email', label: '이메일' },
+  { key: 'mobile', label: '연락처 (Mobile)' },
+  { key: 'birthDate', label: '생년월일' },
+  { key: 'visaStatus', label: '비자 상태' },
+  { key: 'visaExpiryDate', label: '비자 만료일' },
+  { key: 'position', label: '지원 포지션' },
+  { key: 'store', label: '지원 매장' },
+  { key: 'interviewer', label: '면접관' },
+  { key: 'date', label: '면접일자' },
+  { key: 'interviewType', label: '인터뷰 유형' },
+  { key: 'hasSushiExperience', label: '스시 경력 유무' },
+];
+
+const formatBasicInfoValue = (value: BasicInfo[keyof BasicInfo]): string => {
+  if (typeof value === 'boolean') return value ? 'Y' : 'N';
+  return value ?? '';
+};
+
+// Fetch every record matching the query, page by page
+export const fetchAllRecords = async (query: RecordQuery): Promise<InterviewRecord[]> => {
+  const records: InterviewRecord[] = [];
+  let offset: number | null = 0;
+
+  while (offset !== null) {
+    const page = await recordRepository.getRecords({ ...query, offset, limit: EXPORT_PAGE_SIZE });
+    records.push(...page.records);
+    offset = page.nextOffset;
+  }
+  return records;
+};
+
+interface QuestionColumn {
+  key: string;
+  header: string;
+  answerKey: string; // Where the template version stores the answer
+}
+
+// A question's column is identified by its wording, so a question reworded in a
+// later version gets its own column and an unchanged one is shared across versions.
+// Follow-ups are keyed under their parent, as the same prompt can follow many questions.
+const getQuestionColumns = (template: InterviewTemplate): QuestionColumn[] =>
+  template.stages
+    .flatMap(stage => stage.sections.flatMap(section => section.questions || []))
+    .flatMap(q => [
+      { key: q.text, header: q.text, answerKey: q.id },
+      ...(q.followUps || []).map(f => ({
+        key: `${q.text}\n↳ ${f.text}`,
+        header: `↳ ${f.text}`,
+        answerKey: getFollowUpAnswerKey(f.id),
+      })),
+    ]);
+
+// One row per record: BasicInfo columns, then one column per question of the given
+// templates in order, each followed by its follow-ups. Each record's answers are read
+// through the template version it was run with, from templateFor.
+export const buildExportTable = (
+  records: InterviewRecord[],
+  templates: InterviewTemplate[],
+  templateFor: (record: InterviewRecord) => InterviewTemplate,
+  options: ExportOptions
+): ExportTable => {
+  const questions = new Map<string, QuestionColumn>();
+  templates.flatMap(getQuestionColumns).forEach(column => {
+    if (!questions.has(column.key)) questions.set(column.key, column);
+  });
+
+  // Answers per column key, resolved through each record's own template
+  const answersFor = (record: InterviewRecord): Map<string, string> => {
+    const answers = new Map<string, string>();
+    getQuestionColumns(templateFor(record)).forEach(column => {
+      const answer = record.answers[column.answerKey];
+      if (answer && !answers.has(column.key)) answers.set(column.key, answer);
+    });
+    return answers;
+  };
+
+  const headers = [
+    ...BASIC_INFO_COLUMNS.map(c => c.label),
+    '채용 결과',
+    '종합 점수',
+    '합격 기준',
+    ...Array.from(questions.values(), q => q.header),
+    ...(options.includeAiSummary ? ['AI 추천', 'AI 면접 분석'] : []),
+  ];
+
+  const rows = records.map(record => {
+    const answers = answersFor(record);
+    return [
+      ...BASIC_INFO_COLUMNS.map(c => c.key === 'interviewType'
+        ? getInterviewType(record.basicInfo.interviewType).name
+        : formatBasicInfoValue(record.basicInfo[c.key])),
+      CANDIDATE_OUTCOMES.find(o => o.value === (record.outcome || 'pending'))?.label || '',
+      record.overallScore?.toFixed(1) ?? '',
+      record.passed === undefined ? '' : record.passed ? '충족' : '미달',
+      ...Array.from(questions.keys(), key => answers.get(key) || ''),
+      ...(options.includeAiSummary ? [record.aiEvaluation?.recommendation || '', record.aiSummary || ''] : []),
+    ];
+  });
+
+  return { headers, rows };
+};
+
+// Spreadsheet apps evaluate a CSV cell starting with one of these as a formula, so
+// interview notes like "=HYPERLINK(...)" are prefixed with a quote to stay text.
+// XLSX cells are written as typed strings and never evaluated, so they are left as is.
+const neutraliseFormula = (value: string): string =>
+  /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+const escapeCsvCell = (raw: string): string => {
+  const value = neutraliseFormula(raw);
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+const triggerDownload = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadCsv = (table: ExportTable, fileName: string) => {
+  const lines = [table.headers, ...table.rows].map(row => row.map(escapeCsvCell).join(','));
+  // BOM so Excel opens the Korean text as UTF-8
+  const blob = new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+  triggerDownload(blob, fileName);
+};
+
+export const downloadXlsx = async (table: ExportTable, fileName: string) => {
+  const data = [
+    table.headers.map(header => ({ value: header, fontWeight: 'bold' as const, wrap: true })),
+    ...table.rows.map(row => row.map(value => ({ value, wrap: true }))),
+  ];
+
+  await writeXlsxFile(data, {
+    sheet: 'Interviews',
+    stickyRowsCount: 1,
+    columns: table.headers.map(() => ({ width: 30 })),
+  }).toFile(fileName);
+};
@@ -0,0 +1,94 @@
+import { Question } from '../types';
+import { ANALYSIS_ERROR_MESSAGES, AnalysisProviderError, analysisProvider } from './analysisProvider';
+
+// Notes shorter than this give the model too little to probe
+export const MIN_SUGGESTION_NOTE_LENGTH = 10;
+// Wait this long after the interviewer stops typing before asking
+export const SUGGESTION_DEBOUNCE_MS = 1500;
+// At most this many requests per window, however fast the notes change
+const RATE_LIMIT_REQUESTS = 6;
+const RATE_LIMIT_WINDOW_MS = 60_000;
+// Earlier answers sent as context, most recent first
+const MAX_EARLIER_ANSWERS = 6;
+
+export interface SuggestionContext {
+  question: Question;
+  note: string;
+  earlierAnswers: { question: string; note: string }[]; // In interview order
+}
+
+const requestTimes: number[] = [];
+
+// How long until another request fits in the rate limit; 0 when one can be sent now
+export const getSuggestionDelay = (now = Date.now()): number => {
+  while (requestTimes.length && requestTimes[0] <= now - RATE_LIMIT_WINDOW_MS) requestTimes.shift();
+  return requestTimes.length < RATE_LIMIT_REQUESTS ? 0 : requestTimes[0] + RATE_LIMIT_WINDOW_MS - now;
+};
+
+const SUGGESTIONS_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    suggestions: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['suggestions'],
+  additionalProperties: false,
+};
+
+const buildPrompt = ({ question, note, earlierAnswers }: SuggestionContext) => {
+  let context = `Question: ${question.text}\n`;
+  context += `Checkpoints: ${question.checkpoints.join(', ')}\n`;
+  if (question.followUps?.length) context += `Prepared Follow-ups: ${question.followUps.map(f => f.text).join(' / ')}\n`;
+  if (question.goodSigns?.length) context += `Good Signs: ${question.goodSigns.join(' / ')}\n`;
+  if (question.badSigns?.length) context += `Red Flags: ${question.badSigns.join(' / ')}\n`;
+  const earlier = earlierAnswers.slice(-MAX_EARLIER_ANSWERS);
+  if (earlier.length) {
+    context += `Earlier Answers:\n`;
+    earlier.forEach(a => {
+      context += `  Q: ${a.question}\n  Note: ${a.note}\n`;
+    });
+  }
+  context += `Current Note: ${note}\n`;
+
+  return `
+    You are assisting an interviewer at the Elleo Group (a premium food & beverage hospitality group) during a live interview.
+    Suggest 2 or 3 short follow-up questions the interviewer could ask next, based on the current note.
+    Probe what is vague, missing or inconsistent with the earlier answers (for example a reason for leaving
+    given without any detail), and what the checkpoints still need. Do not repeat the prepared follow-ups.
+    Write each question in Korean, as it would be asked to the candidate.
+
+    ${context}
+  `;
+};
+
+// Asks the configured provider for follow-up questions. Callers debounce and check
+// getSuggestionDelay() first; every call counts against the rate limit.
+// Throws an Error whose message can be shown to the interviewer as-is.
+export const suggestFollowUps = async (context: SuggestionContext, signal?: AbortSignal): Promise<string[]> => {
+  requestTimes.push(Date.now());
+  let response = '';
+  try {
+    for await (const chunk of analysisProvider.streamJson({
+      name: 'follow_up_suggestions',
+      prompt: buildPrompt(context),
+      schema: SUGGESTIONS_SCHEMA,
+      signal,
+    })) {
+      response += chunk;
+    }
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    if (error instanceof AnalysisProviderError) throw new Error(ANALYSIS_ERROR_MESSAGES[error.code]);
+    throw error;
+  }
+
+  try {
+    const { suggestions } = JSON.parse(response);
+    return (Array.isArray(suggestions) ? suggestions : [])
+      .filter((s: unknown): s is string => typeof s === 'string' && !!s.trim())
+      .map(s => s.trim())
+      .slice(0, 3);
+  } catch {
+    console.error('Invalid follow-up suggestions:', response);
+    throw new Error('꼬리 질문 제안을 읽을 수 없습니다.');
+  }
+};
@@ -0,0 +1,35 @@
+import { ApiError, GoogleGenAI } from "@google/genai";
+import { AnalysisConfig } from './config';
+import { AnalysisProvider, AnalysisProviderError, errorFromStatus } from './analysisProvider';
+
+export const createGeminiAnalysisProvider = ({ apiKey, model, temperature }: AnalysisConfig): AnalysisProvider => ({
+  async *streamJson({ prompt, schema, attachment, signal }) {
+    if (!apiKey) {
+      throw new AnalysisProviderError('not_configured', 'VITE_GEMINI_API_KEY is not set');
+    }
+
+    const ai = new GoogleGenAI({ apiKey });
+    try {
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: attachment
+          ? [{ inlineData: { mimeType: attachment.mimeType, data: attachment.data } }, { text: prompt }]
+          : prompt,
+        config: {
+          abortSignal: signal,
+          temperature,
+          responseMimeType: 'application/json',
+          responseJsonSchema: schema,
+        },
+      });
+      for await (const chunk of stream) {
+        yield chunk.text || '';
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error("Gemini API Error:", error);
+      if (error instanceof ApiError) throw errorFromStatus(error.status, error.message);
+      throw new AnalysisProviderError('network', error instanceof Error ? error.message : String(error));
+    }
+  },
+});
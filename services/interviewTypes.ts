@@ -0,0 +1,101 @@
+import { InterviewType, Stage } from '../types';
+import { INTERVIEW_STAGES as STANDARD_STAGES } from '../constants';
+import { INTERVIEW_STAGES as DEPTH_STAGES } from '../constants_in-depth';
+import { INTERVIEW_STAGES as PHONE_SCREEN_STAGES } from '../constants_phone-screen';
+import { INTERVIEW_STAGES as TRIAL_SHIFT_STAGES } from '../constants_trial-shift';
+import { INTERVIEW_STAGES as EXIT_STAGES } from '../constants_exit-interview';
+
+export interface InterviewTypeDefinition {
+  id: InterviewType;
+  name: string; // Template name, also used in the new-interview menu
+  label: string; // Short badge text on list cards
+  badgeClass: string;
+  description: string;
+  stages: Stage[]; // Bundled question bank (template version 0)
+  askSushiExperience?: boolean;
+  // Tells the AI analysis what the notes are about and how to fill each evaluation field
+  analysisGuide: string;
+}
+
+const HIRING_ANALYSIS_GUIDE = `Evaluate the following interview notes for a candidate.
+    - strengths: Positive traits shown in the notes.
+    - concerns: Red flags or areas needing improvement. Checkpoints marked [RED FLAG] by the interviewer must be addressed here.
+    - culturalFit: Alignment with teamwork and organizational values.
+    - recommendation: Whether they seem like a strong candidate.`;
+
+// Records without an interviewType were run as STANDARD
+export const DEFAULT_INTERVIEW_TYPE: InterviewType = 'STANDARD';
+
+export const INTERVIEW_TYPES: InterviewTypeDefinition[] = [
+  {
+    id: 'STANDARD',
+    name: '일반 인터뷰',
+    label: '일반',
+    badgeClass: 'bg-slate-100 text-slate-600',
+    description: '지원 동기, 경력, 근무 조건을 확인하는 기본 면접',
+    stages: STANDARD_STAGES,
+    askSushiExperience: true,
+    analysisGuide: HIRING_ANALYSIS_GUIDE,
+  },
+  {
+    id: 'DEPTH',
+    name: '심층 인터뷰',
+    label: '심층',
+    badgeClass: 'bg-elleo-purple text-white',
+    description: '인성, 가치관, 장기 적합성을 깊이 있게 보는 면접',
+    stages: DEPTH_STAGES,
+    analysisGuide: HIRING_ANALYSIS_GUIDE,
+  },
+  {
+    id: 'PHONE_SCREEN',
+    name: '전화 스크리닝',
+    label: '전화',
+    badgeClass: 'bg-sky-100 text-sky-700',
+    description: '대면 면접 전 근무 조건과 경력을 짧게 확인',
+    stages: PHONE_SCREEN_STAGES,
+    askSushiExperience: true,
+    analysisGuide: `Evaluate the following notes from a short phone screen held before an in-person interview.
+    - strengths: Relevant experience, and availability, visa and pay expectations that fit the role.
+    - concerns: Conditions that do not fit and points to verify at the in-person interview. Checkpoints marked [RED FLAG] by the interviewer must be addressed here.
+    - culturalFit: The impression the candidate gave on the call.
+    - recommendation: Whether to invite them to an in-person interview.`,
+  },
+  {
+    id: 'TRIAL_SHIFT',
+    name: '트라이얼 시프트 평가',
+    label: '트라이얼',
+    badgeClass: 'bg-amber-100 text-amber-800',
+    description: '트라이얼 근무 직후 담당자가 관찰한 내용을 기록',
+    stages: TRIAL_SHIFT_STAGES,
+    analysisGuide: `Evaluate the following debrief of a trial shift, written by the staff member who worked alongside the candidate.
+    - strengths: Hygiene, safety, speed and accuracy as observed on the shift.
+    - concerns: Anything that could be a problem on a regular shift. Checkpoints marked [RED FLAG] by the interviewer must be addressed here.
+    - culturalFit: Communication, handling the rush and response to feedback.
+    - recommendation: Whether to offer the position.`,
+  },
+  {
+    id: 'EXIT',
+    name: '퇴사 면담',
+    label: '퇴사',
+    badgeClass: 'bg-rose-100 text-rose-700',
+    description: '퇴사 예정 직원에게 퇴사 사유와 개선점을 듣는 면담',
+    stages: EXIT_STAGES,
+    analysisGuide: `Evaluate the following exit interview notes from a departing employee. This is not a hiring decision.
+    - strengths: What the employee valued and the company should keep.
+    - concerns: The main reasons for leaving and concrete improvements to management, scheduling, training or team culture. Checkpoints marked [RED FLAG] by the interviewer must be addressed here.
+    - culturalFit: Team and management issues raised, and whether they may affect other staff.
+    - recommendation: Whether the company should rehire them in future.`,
+  },
+];
+
+// Records of a type no longer in the registry still get a badge and a usable analysis
+export const getInterviewType = (id?: InterviewType): InterviewTypeDefinition =>
+  INTERVIEW_TYPES.find(t => t.id === (id || DEFAULT_INTERVIEW_TYPE)) ?? {
+    id: id!,
+    name: id!,
+    label: id!,
+    badgeClass: 'bg-slate-100 text-slate-600',
+    description: '',
+    stages: [],
+    analysisGuide: HIRING_ANALYSIS_GUIDE,
+  };
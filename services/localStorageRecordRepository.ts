@@ -0,0 +1,89 @@
+import { InterviewRecord, RecordConflict, RecordRevision, SaveResult } from '../types';
+import { RecordRepository } from './recordRepository';
+import { buildRevision } from './revisions';
+import { paginateRecords } from './recordQuery';
+
+const STORAGE_KEY = 'elleo-interview-records';
+const REVISIONS_STORAGE_KEY = 'elleo-interview-record-revisions';
+
+const readJson = <T,>(key: string): Record<string, T> => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || '{}');
+  } catch (error) {
+    console.error(`Error reading ${key} from localStorage:`, error);
+    return {};
+  }
+};
+
+const writeJson = <T,>(key: string, value: Record<string, T>) => {
+  localStorage.setItem(key, JSON.stringify(value));
+};
+
+const readAll = () => readJson<InterviewRecord>(STORAGE_KEY);
+const readRevisions = () => readJson<RecordRevision[]>(REVISIONS_STORAGE_KEY);
+
+// Stores records in the browser's localStorage, for running without a Supabase project
+export const createLocalStorageRecordRepository = (): RecordRepository => {
+  // Another tab may have saved the same record; conflicts only live until resolved
+  const conflicts = new Map<string, RecordConflict>();
+
+  return {
+    start: async () => {},
+
+    saveRecord: async (record: InterviewRecord): Promise<SaveResult> => {
+      const records = readAll();
+      const stored = records[record.id];
+      if (stored && (record.version || 0) !== (stored.version || 0)) {
+        conflicts.set(record.id, { mine: record, theirs: stored });
+        return { status: 'conflict' };
+      }
+
+      const version = (stored?.version || 0) + 1;
+      records[record.id] = { ...record, version, updatedAt: Date.now() };
+
+      const revisions = readRevisions();
+      const history = revisions[record.id] || [];
+      const revision = buildRevision(history, record, record.basicInfo.interviewer || 'Local user');
+      if (revision) {
+        revisions[record.id] = [...history, revision];
+      }
+
+      try {
+        writeJson(STORAGE_KEY, records);
+        writeJson(REVISIONS_STORAGE_KEY, revisions);
+      } catch (error: any) {
+        // Usually the storage quota; surface it like a failed save
+        console.error('Error writing record to localStorage:', error);
+        throw error;
+      }
+      conflicts.delete(record.id);
+      return { status: 'synced', version };
+    },
+
+    getRecords: async (query) =>
+      paginateRecords(Object.values(readAll()).map(({ resume, ...record }) => record), query),
+
+    getRecordById: async (id: string) => readAll()[id],
+
+    deleteRecord: async (id: string) => {
+      const records = readAll();
+      delete records[id];
+      writeJson(STORAGE_KEY, records);
+
+      const revisions = readRevisions();
+      delete revisions[id];
+      writeJson(REVISIONS_STORAGE_KEY, revisions);
+    },
+
+    getConflict: async (id: string) => conflicts.get(id),
+
+    getRevisions: async (recordId: string) =>
+      (readRevisions()[recordId] || []).sort((a, b) => b.revision - a.revision),
+
+    // Nothing to sync: every save is final
+    subscribeSyncStatus: (listener) => {
+      listener({});
+      return () => {};
+    }
+  };
+};
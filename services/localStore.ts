@@ -0,0 +1,72 @@
+import { InterviewRecord, SyncStatus } from '../types';
+
+const DB_NAME = 'elleo-interview-mate';
+const DB_VERSION = 1;
+const RECORD_STORE = 'records';
+
+// A record as kept on this device, together with its sync state
+export interface LocalRecordEntry {
+  id: string;
+  record: InterviewRecord;
+  // User who saved it; only they may upload or see it. Unset on entries saved before
+  // owners were tracked, which are never uploaded under a guessed account.
+  ownerId?: string;
+  syncStatus: SyncStatus;
+  syncError?: string;
+  // Server copy that rejected this record, while the conflict is unresolved
+  conflict?: InterviewRecord;
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RECORD_STORE)) {
+          db.createObjectStore(RECORD_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wraps a single-request transaction in a promise
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(RECORD_STORE, mode);
+    const request = run(tx.objectStore(RECORD_STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const putLocalEntry = async (entry: LocalRecordEntry): Promise<void> => {
+  await withStore('readwrite', store => store.put(entry));
+};
+
+export const getLocalEntry = async (id: string): Promise<LocalRecordEntry | undefined> => {
+  return withStore<LocalRecordEntry | undefined>('readonly', store => store.get(id));
+};
+
+export const getAllLocalEntries = async (): Promise<LocalRecordEntry[]> => {
+  return withStore<LocalRecordEntry[]>('readonly', store => store.getAll());
+};
+
+export const deleteLocalEntry = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,58 @@
+import { InterviewRecord, RecordConflict, RecordRevision, SaveResult } from '../types';
+import { RecordRepository } from './recordRepository';
+import { buildRevision } from './revisions';
+import { paginateRecords } from './recordQuery';
+
+// Keeps records for the lifetime of the page only. Useful for demos and tests.
+export const createMemoryRecordRepository = (seed: InterviewRecord[] = []): RecordRepository => {
+  const records = new Map<string, InterviewRecord>(seed.map(r => [r.id, r]));
+  const revisions = new Map<string, RecordRevision[]>();
+  const conflicts = new Map<string, RecordConflict>();
+
+  return {
+    start: async () => {},
+
+    saveRecord: async (record: InterviewRecord): Promise<SaveResult> => {
+      const stored = records.get(record.id);
+      if (stored && (record.version || 0) !== (stored.version || 0)) {
+        conflicts.set(record.id, { mine: structuredClone(record), theirs: structuredClone(stored) });
+        return { status: 'conflict' };
+      }
+
+      const version = (stored?.version || 0) + 1;
+      records.set(record.id, structuredClone({ ...record, version, updatedAt: Date.now() }));
+      conflicts.delete(record.id);
+
+      const history = revisions.get(record.id) || [];
+      const revision = buildRevision(history, record, record.basicInfo.interviewer || 'Local user');
+      if (revision) {
+        revisions.set(record.id, [...history, revision]);
+      }
+      return { status: 'synced', version };
+    },
+
+    getRecords: async (query) =>
+      paginateRecords(Array.from(records.values()).map(({ resume, ...record }) => structuredClone(record)), query),
+
+    getRecordById: async (id: string) => {
+      const record = records.get(id);
+      return record ? structuredClone(record) : undefined;
+    },
+
+    deleteRecord: async (id: string) => {
+      records.delete(id);
+      revisions.delete(id);
+    },
+
+    getConflict: async (id: string) => conflicts.get(id),
+
+    getRevisions: async (recordId: string) =>
+      structuredClone(revisions.get(recordId) || []).sort((a, b) => b.revision - a.revision),
+
+    // Nothing to sync: every save is final
+    subscribeSyncStatus: (listener) => {
+      listener({});
+      return () => {};
+    }
+  };
+};
@@ -0,0 +1,85 @@
+import { AiEvaluation } from '../types';
+import { AnalysisProvider, AnalysisProviderError } from './analysisProvider';
+
+const CHUNK_SIZE = 24;
+const CHUNK_DELAY_MS = 40;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+// Quotes the first answered notes in the prompt, so evidence links to real questions
+const pickEvidence = (prompt: string): AiEvaluation['evidence'] => {
+  const evidence: AiEvaluation['evidence'] = [];
+  let questionId: string | null = null;
+  for (const line of prompt.split('\n')) {
+    const question = line.match(/^\s*Q \[([^\]]+)\]:/);
+    if (question) {
+      questionId = question[1];
+      continue;
+    }
+    const note = line.match(/^\s*Interviewer Note\/Answer: (.+)$/);
+    if (note && questionId && note[1] !== '(no note)') {
+      evidence.push({ questionId, quote: note[1].trim() });
+      if (evidence.length === 2) break;
+    }
+  }
+  return evidence;
+};
+
+const mockEvaluation = (prompt: string): AiEvaluation => ({
+  recommendation: '보류',
+  confidence: 50,
+  strengths: ['[데모] 질문에 성실하게 답변함', '[데모] 근무 조건에 대한 이해가 있음'],
+  concerns: ['[데모] 실제 AI 분석이 아닌 예시 결과입니다'],
+  culturalFit: '[데모] AI 제공자가 설정되지 않아 예시 평가를 표시합니다.',
+  evidence: pickEvidence(prompt),
+});
+
+// Matches RESUME_SCHEMA in resumeExtraction.ts
+const mockResumeProfile = () => ({
+  name: 'Demo Candidate',
+  email: 'demo.candidate@example.com',
+  mobile: '0400 000 000',
+  birthDate: '',
+  visaStatus: 'Working Holiday',
+  workHistory: [
+    { employer: 'Demo Sushi Bar', role: 'Kitchen Hand', period: '2023.02 - 2024.06', description: '[데모] 주방 보조 및 재료 손질' },
+    { employer: 'Demo Cafe', role: 'Barista', period: '2021.09 - 2022.12', description: '[데모] 커피 제조 및 홀 서비스' },
+  ],
+});
+
+const mockFollowUpSuggestions = () => ({
+  suggestions: [
+    '[데모] 조금 더 구체적인 예를 들어 주실 수 있나요?',
+    '[데모] 그때 본인이 맡았던 역할은 무엇이었나요?',
+    '[데모] 같은 상황이 다시 온다면 어떻게 하시겠어요?',
+  ],
+});
+
+const MOCK_RESPONSES: Record<string, (prompt: string) => unknown> = {
+  interview_evaluation: mockEvaluation,
+  resume_profile: mockResumeProfile,
+  follow_up_suggestions: mockFollowUpSuggestions,
+};
+
+// Canned, deterministic responses streamed like a real model, for developing the
+// AI features offline. The same request always gives the same response.
+export const createMockAnalysisProvider = (): AnalysisProvider => ({
+  async *streamJson({ name, prompt, signal }) {
+    const respond = MOCK_RESPONSES[name];
+    if (!respond) throw new AnalysisProviderError('unavailable', `No mock response for "${name}"`);
+
+    const text = JSON.stringify(respond(prompt));
+    for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+      await wait(CHUNK_DELAY_MS, signal);
+      yield text.slice(i, i + CHUNK_SIZE);
+    }
+  },
+});
@@ -0,0 +1,84 @@
+import { AnalysisConfig } from './config';
+import { AnalysisAttachment, AnalysisProvider, AnalysisProviderError, errorFromStatus } from './analysisProvider';
+
+// Images go in as image_url parts; PDFs as file parts, which not every local server reads
+const toContentPart = ({ fileName, mimeType, data }: AnalysisAttachment) => {
+  const url = `data:${mimeType};base64,${data}`;
+  return mimeType.startsWith('image/')
+    ? { type: 'image_url', image_url: { url } }
+    : { type: 'file', file: { filename: fileName, file_data: url } };
+};
+
+// Chat Completions streaming, which OpenAI and most local servers (Ollama, LM Studio,
+// vLLM) speak. The API key is optional because local servers usually do not check it.
+export const createOpenAiAnalysisProvider = ({ apiKey, model, temperature, baseUrl }: AnalysisConfig): AnalysisProvider => ({
+  async *streamJson({ name, prompt, schema, attachment, signal }) {
+    if (!baseUrl) {
+      throw new AnalysisProviderError('not_configured', 'VITE_AI_BASE_URL is not set');
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          temperature,
+          stream: true,
+          messages: [{ role: 'user', content: attachment ? [toContentPart(attachment), { type: 'text', text: prompt }] : prompt }],
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name, schema, strict: true },
+          },
+        }),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error("Analysis API Error:", error);
+      throw new AnalysisProviderError('network', error instanceof Error ? error.message : String(error));
+    }
+
+    if (!response.ok || !response.body) {
+      const message = await response.text().catch(() => '');
+      console.error("Analysis API Error:", response.status, message);
+      throw errorFromStatus(response.status, message || response.statusText);
+    }
+
+    // Server-sent events: one "data: {...}" line per delta, ending with "data: [DONE]"
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const data = line.trim();
+          if (!data.startsWith('data:')) continue;
+          const payload = data.slice(5).trim();
+          if (payload === '[DONE]') return;
+          let chunk;
+          try {
+            chunk = JSON.parse(payload);
+          } catch {
+            continue; // Keep-alive or vendor-specific line
+          }
+          yield chunk.choices?.[0]?.delta?.content || '';
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error("Analysis API Error:", error);
+      throw new AnalysisProviderError('network', error instanceof Error ? error.message : String(error));
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+  },
+});
@@ -0,0 +1,54 @@
+import { CheckpointRating, InterviewRecord, QuestionRatings, RatingScale } from '../types';
+import { DEFAULT_RATING_SCALE } from '../constants';
+
+export interface RatingSummary {
+  average: number | null; // Mean score on the template's scale; null when nothing is rated
+  scored: number;
+  redFlags: number;
+}
+
+const allRatings = (record: Pick<InterviewRecord, 'ratings'>): CheckpointRating[] =>
+  Object.values(record.ratings || {}).flatMap(question => Object.values(question));
+
+export const summarizeRatings = (record: Pick<InterviewRecord, 'ratings'>): RatingSummary => {
+  const ratings = allRatings(record);
+  const scores = ratings.map(r => r.score).filter((s): s is number => typeof s === 'number');
+
+  return {
+    average: scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : null,
+    scored: scores.length,
+    redFlags: ratings.filter(r => r.redFlag).length,
+  };
+};
+
+// Clearing both score and flag removes the checkpoint (and the question once empty),
+// so unrated checkpoints never show up as stored ratings
+export const updateCheckpointRating = (
+  ratings: Record<string, QuestionRatings>,
+  questionId: string,
+  checkpoint: string,
+  rating: CheckpointRating
+): Record<string, QuestionRatings> => {
+  const question = { ...ratings[questionId] };
+  if (rating.score === undefined && !rating.redFlag) {
+    delete question[checkpoint];
+  } else {
+    question[checkpoint] = rating;
+  }
+
+  const next = { ...ratings };
+  if (Object.keys(question).length === 0) {
+    delete next[questionId];
+  } else {
+    next[questionId] = question;
+  }
+  return next;
+};
+
+// "업무 책임감 4/5, 이직 사유 2/5 [RED FLAG]" for the analysis prompt
+export const formatQuestionRatings = (ratings: QuestionRatings | undefined, scale: RatingScale = DEFAULT_RATING_SCALE): string =>
+  Object.entries(ratings || {})
+    .map(([checkpoint, rating]) =>
+      `${checkpoint} ${rating.score !== undefined ? `${rating.score}/${scale.max}` : 'not scored'}${rating.redFlag ? ' [RED FLAG]' : ''}`
+    )
+    .join(', ');
@@ -0,0 +1,66 @@
+import { InterviewRecord, RecordRevision } from '../types';
+
+export const TABLE_NAME = 'interview_records';
+export const REVISIONS_TABLE_NAME = 'interview_record_revisions';
+
+// Helper to map snake_case from DB to camelCase for App
+export const mapFromDb = (record: any): InterviewRecord => ({
+  id: record.id,
+  ownerId: record.user_id ?? undefined,
+  basicInfo: record.basic_info,
+  answers: record.answers,
+  ratings: record.ratings || {},
+  overallScore: record.overall_score ?? undefined,
+  passed: record.passed ?? undefined,
+  resume: record.resume,
+  candidateProfile: record.candidate_profile ?? undefined,
+  aiSummary: record.ai_summary,
+  aiEvaluation: record.ai_evaluation ?? undefined,
+  outcome: record.outcome ?? undefined,
+  anonymisedAt: record.anonymised_at ? new Date(record.anonymised_at).getTime() : undefined,
+  templateId: record.template_id ?? undefined,
+  templateVersion: record.template_version ?? undefined,
+  language: record.language ?? undefined,
+  status: record.status ?? undefined,
+  completedAt: record.completed_at ? new Date(record.completed_at).getTime() : undefined,
+  completionOverride: record.completion_override ?? undefined,
+  createdAt: new Date(record.created_at).getTime(),
+  version: record.version,
+  updatedAt: record.updated_at ? new Date(record.updated_at).getTime() : undefined
+});
+
+// Helper to map camelCase from App to snake_case for DB.
+// version/updated_at are maintained by the bump_interview_record_version() trigger,
+// anonymised_at only by the retention job.
+export const mapToDb = (record: InterviewRecord) => ({
+  id: record.id,
+  basic_info: record.basicInfo,
+  answers: record.answers,
+  ratings: record.ratings || {},
+  overall_score: record.overallScore ?? null,
+  passed: record.passed ?? null,
+  resume: record.resume,
+  candidate_profile: record.candidateProfile ?? null,
+  ai_summary: record.aiSummary,
+  ai_evaluation: record.aiEvaluation ?? null,
+  outcome: record.outcome ?? 'pending',
+  template_id: record.templateId ?? null,
+  template_version: record.templateVersion ?? null,
+  language: record.language ?? null,
+  status: record.status ?? 'completed',
+  completed_at: record.completedAt ? new Date(record.completedAt).toISOString() : null,
+  completion_override: record.completionOverride ?? null,
+  created_at: new Date(record.createdAt).toISOString()
+});
+
+export const mapRevisionFromDb = (revision: any): RecordRevision => ({
+  id: revision.id,
+  recordId: revision.record_id,
+  revision: revision.revision,
+  author: revision.author_email || '알 수 없음',
+  createdAt: new Date(revision.created_at).getTime(),
+  changedQuestionIds: revision.changed_question_ids || [],
+  answers: revision.answers || {},
+  ratings: revision.ratings ?? undefined,
+  aiSummary: revision.ai_summary ?? undefined
+});
@@ -0,0 +1,177 @@
+import { InterviewRecord, RecordFilters, RecordPage, RecordQuery, RecordSortKey, SearchHit } from '../types';
+import { getRecordStatus } from './completion';
+import { DEFAULT_INTERVIEW_TYPE } from './interviewTypes';
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+// Today as YYYY-MM-DD in the interviewer's time zone, the format of basicInfo.date.
+// toISOString() would give the UTC date, a day behind in Australian mornings.
+export const getLocalDate = (now = new Date()): string =>
+  `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+
+const HANGUL_INITIALS = [
+  'ㄱ', 'ㄲ', 'ㄴ', 'ㄷ', 'ㄸ', 'ㄹ', 'ㅁ', 'ㅂ', 'ㅃ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅉ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'
+];
+const DOUBLE_INITIALS: Record<string, string> = {
+  'ㄲ': 'ㄱ', 'ㄸ': 'ㄷ', 'ㅃ': 'ㅂ', 'ㅆ': 'ㅅ', 'ㅉ': 'ㅈ'
+};
+
+export const getInitial = (name: string): string => {
+  if (!name) return '';
+  const char = name.charAt(0);
+  const code = char.charCodeAt(0);
+
+  // Korean Hangul Syllables
+  if (code >= 0xAC00 && code <= 0xD7A3) {
+    const initial = HANGUL_INITIALS[Math.floor((code - 0xAC00) / 588)];
+    return DOUBLE_INITIALS[initial] || initial;
+  }
+
+  // English
+  if (/[a-zA-Z]/.test(char)) {
+    return char.toUpperCase();
+  }
+
+  return 'Other';
+};
+
+// Syllable range [from, to) of names starting with a Hangul initial, e.g. ㄱ -> [가, 나).
+// Double initials (ㄲ, ㄸ, ...) sort between their base and the next initial,
+// so they fall inside the base initial's range.
+export const getInitialSyllableRange = (initial: string): [string, string] | undefined => {
+  const index = HANGUL_INITIALS.indexOf(initial);
+  if (index === -1 || DOUBLE_INITIALS[initial]) return undefined;
+
+  const next = HANGUL_INITIALS.slice(index + 1).find(i => !DOUBLE_INITIALS[i]);
+  const from = String.fromCharCode(0xAC00 + index * 588);
+  const to = String.fromCharCode(next ? 0xAC00 + HANGUL_INITIALS.indexOf(next) * 588 : 0xD7A4);
+  return [from, to];
+};
+
+export const getSearchKeywords = (search?: string): string[] =>
+  (search || '').toLowerCase().split(/\s+/).filter(Boolean);
+
+// A lone Hangul initial (ㄱ, ㄴ, ...) searches names by their first consonant
+export const isInitialKeyword = (keyword: string): boolean =>
+  getInitialSyllableRange(keyword) !== undefined;
+
+const SNIPPET_LENGTH = 120;
+const SNIPPET_LEAD = 40;
+
+// Same window as interview_search_snippet() in the database
+export const buildSnippet = (content: string, term: string): string => {
+  if (content.length <= SNIPPET_LENGTH) return content;
+  const start = Math.max(0, content.toLowerCase().indexOf(term) - SNIPPET_LEAD);
+  return `${start > 0 ? '…' : ''}${content.slice(start, start + SNIPPET_LENGTH)}${start + SNIPPET_LENGTH < content.length ? '…' : ''}`;
+};
+
+// Answers containing one of the search keywords
+export const findSearchHits = (record: InterviewRecord, search?: string): SearchHit[] => {
+  const terms = getSearchKeywords(search).filter(keyword => !isInitialKeyword(keyword));
+  if (terms.length === 0) return [];
+
+  return Object.keys(record.answers).sort().flatMap(questionId => {
+    const answer = record.answers[questionId] || '';
+    const term = terms.find(t => answer.toLowerCase().includes(t));
+    return term ? [{ questionId, snippet: buildSnippet(answer, term) }] : [];
+  });
+};
+
+const countOccurrences = (value: string | undefined, term: string) =>
+  (value || '').toLowerCase().split(term).length - 1;
+
+// Rough browser-side stand-in for the database rank: matches in candidate fields weigh more than in answers
+const relevanceScore = (record: InterviewRecord, keywords: string[]): number => {
+  const info = record.basicInfo;
+  return keywords.reduce((score, term) =>
+    score +
+    3 * (countOccurrences(info.name, term) + countOccurrences(info.position, term) + countOccurrences(info.store, term)) +
+    Object.values(record.answers).reduce((sum, answer) => sum + countOccurrences(answer, term), 0),
+  0);
+};
+
+const containsText = (value: string | undefined, term: string) =>
+  (value || '').toLowerCase().includes(term.toLowerCase());
+
+// Smart Search: every keyword must match the name initial or one of the fields
+const matchesKeyword = (record: InterviewRecord, keyword: string) => {
+  const info = record.basicInfo;
+  const matchesInitial = keyword.length === 1 && getInitial(info.name).toLowerCase() === keyword;
+
+  return matchesInitial ||
+    containsText(info.name, keyword) ||
+    containsText(info.position, keyword) ||
+    containsText(info.store, keyword) ||
+    (info.date || '').includes(keyword) ||
+    Object.values(record.answers).some(answer => containsText(answer, keyword));
+};
+
+export const matchesFilters = (record: InterviewRecord, filters: RecordFilters = {}): boolean => {
+  const info = record.basicInfo;
+
+  if (filters.store && !containsText(info.store, filters.store)) return false;
+  if (filters.position && !containsText(info.position, filters.position)) return false;
+  if (filters.interviewer && !containsText(info.interviewer, filters.interviewer)) return false;
+  if (filters.status && getRecordStatus(record) !== filters.status) return false;
+  if (filters.aiRecommendation && record.aiEvaluation?.recommendation !== filters.aiRecommendation) return false;
+  if (filters.interviewType && (info.interviewType || DEFAULT_INTERVIEW_TYPE) !== filters.interviewType) return false;
+  if (filters.dateFrom && (info.date || '') < filters.dateFrom) return false;
+  if (filters.dateTo && (info.date || '') > filters.dateTo) return false;
+
+  return getSearchKeywords(filters.search).every(keyword => matchesKeyword(record, keyword));
+};
+
+const sortValue = (record: InterviewRecord, sortBy: RecordSortKey): string | number => {
+  switch (sortBy) {
+    case 'date':
+      return record.basicInfo.date || '';
+    case 'name':
+      return record.basicInfo.name || '';
+    case 'created':
+    case 'relevance':
+      return record.createdAt;
+    case 'score':
+      return record.overallScore ?? 0;
+  }
+};
+
+export const compareRecords = (sortBy: RecordSortKey, direction: 'asc' | 'desc') =>
+  (a: InterviewRecord, b: InterviewRecord): number => {
+    // Unscored records go last in either direction, like NULLS LAST on the server
+    if (sortBy === 'score' && (a.overallScore === undefined) !== (b.overallScore === undefined)) {
+      return a.overallScore === undefined ? 1 : -1;
+    }
+    const x = sortValue(a, sortBy);
+    const y = sortValue(b, sortBy);
+    const result = typeof x === 'number' && typeof y === 'number'
+      ? x - y
+      : String(x).localeCompare(String(y), 'ko');
+    return direction === 'asc' ? result : -result;
+  };
+
+// Filter, sort and slice an in-memory list. Used by the browser-side backends.
+export const paginateRecords = (records: InterviewRecord[], query: RecordQuery = {}): RecordPage => {
+  const { filters, sortBy = 'created', sortDirection = 'desc', offset = 0, limit = DEFAULT_PAGE_SIZE } = query;
+
+  const keywords = getSearchKeywords(filters?.search);
+  const matching = records
+    .filter(record => matchesFilters(record, filters))
+    .sort(compareRecords(sortBy, sortDirection));
+
+  if (sortBy === 'relevance' && keywords.length > 0) {
+    const scores = new Map(matching.map(record => [record.id, relevanceScore(record, keywords)]));
+    // Stable sort keeps newest first among equal scores
+    matching.sort((a, b) => scores.get(b.id)! - scores.get(a.id)!);
+  }
+
+  const end = offset + limit;
+  const page = matching.slice(offset, end);
+  return {
+    records: page,
+    total: matching.length,
+    nextOffset: end < matching.length ? end : null,
+    hits: keywords.length > 0
+      ? Object.fromEntries(page.map(record => [record.id, findSearchHits(record, filters?.search)]))
+      : undefined
+  };
+};
@@ -0,0 +1,36 @@
+import { InterviewRecord, RecordConflict, RecordPage, RecordQuery, RecordRevision, SaveResult, SyncStatusMap } from '../types';
+import { appConfig, RecordBackend } from './config';
+import { createSupabaseRecordRepository } from './supabaseRecordRepository';
+import { createLocalStorageRecordRepository } from './localStorageRecordRepository';
+import { createMemoryRecordRepository } from './memoryRecordRepository';
+
+export interface RecordRepository {
+  // Called once a user is signed in, before any other method
+  start: () => Promise<void>;
+  // Saves only if the stored copy is still at record.version; otherwise the
+  // result status is 'conflict' and getConflict() returns both sides
+  saveRecord: (record: InterviewRecord) => Promise<SaveResult>;
+  // One page of records matching the query; resumes are not included
+  getRecords: (query?: RecordQuery) => Promise<RecordPage>;
+  getRecordById: (id: string) => Promise<InterviewRecord | undefined>;
+  deleteRecord: (id: string) => Promise<void>;
+  // The unresolved conflict for a record, if its last save was rejected
+  getConflict: (id: string) => Promise<RecordConflict | undefined>;
+  // Saved revisions of a record, newest first
+  getRevisions: (recordId: string) => Promise<RecordRevision[]>;
+  // Per-record sync status updates. Returns an unsubscribe function.
+  subscribeSyncStatus: (listener: (statuses: SyncStatusMap) => void) => () => void;
+}
+
+export const createRecordRepository = (backend: RecordBackend): RecordRepository => {
+  switch (backend) {
+    case 'supabase':
+      return createSupabaseRecordRepository();
+    case 'local':
+      return createLocalStorageRecordRepository();
+    case 'memory':
+      return createMemoryRecordRepository();
+  }
+};
+
+export const recordRepository = createRecordRepository(appConfig.recordBackend);
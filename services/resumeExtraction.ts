@@ -0,0 +1,126 @@
+import { BasicInfo, WorkHistoryEntry } from '../types';
+import { VISA_STATUSES } from '../constants';
+import { ANALYSIS_ERROR_MESSAGES, AnalysisProviderError, analysisProvider } from './analysisProvider';
+
+// BasicInfo fields a resume can fill in; each is confirmed by the interviewer before use
+export type ResumeField = 'name' | 'email' | 'mobile' | 'birthDate' | 'visaStatus';
+
+export const RESUME_FIELDS: { key: ResumeField; label: string }[] = [
+  { key: 'name', label: '지원자명' },
+  { key: 'email', label: '이메일' },
+  { key: 'mobile', label: '연락처' },
+  { key: 'birthDate', label: '생년월일' },
+  { key: 'visaStatus', label: '비자 상태' },
+];
+
+export interface ResumeExtraction {
+  fields: Partial<Pick<BasicInfo, ResumeField>>;
+  workHistory: WorkHistoryEntry[];
+}
+
+// Inline attachments are capped by the model APIs; larger files are left for manual entry
+const MAX_RESUME_BYTES = 10 * 1024 * 1024;
+
+export const canExtractResume = (file: File): boolean =>
+  (file.type === 'application/pdf' || file.type.startsWith('image/')) && file.size <= MAX_RESUME_BYTES;
+
+const RESUME_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    email: { type: 'string' },
+    mobile: { type: 'string' },
+    birthDate: { type: 'string', description: 'YYYY-MM-DD' },
+    visaStatus: { type: 'string', enum: [...VISA_STATUSES, ''] },
+    workHistory: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          employer: { type: 'string' },
+          role: { type: 'string' },
+          period: { type: 'string' },
+          description: { type: 'string' },
+        },
+        required: ['employer', 'role', 'period', 'description'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['name', 'email', 'mobile', 'birthDate', 'visaStatus', 'workHistory'],
+  additionalProperties: false,
+};
+
+const PROMPT = `
+    Extract the candidate's details from the attached resume, for a job application at a hospitality group.
+    - name, email, mobile: exactly as written on the resume.
+    - birthDate: YYYY-MM-DD, only when the full date of birth is on the resume.
+    - visaStatus: one of the allowed values, only when the resume states the candidate's visa or residency.
+    - workHistory: every job, most recent first. period is copied as written; description is one short
+      sentence in Korean about the duties.
+    Use an empty string for anything the resume does not state. Never guess.
+  `;
+
+const readAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Drops empty values and anything that would not fit the form's inputs
+const normalizeExtraction = (value: unknown): ResumeExtraction => {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const fields: ResumeExtraction['fields'] = {};
+  if (text(raw.name)) fields.name = text(raw.name);
+  if (text(raw.email)) fields.email = text(raw.email);
+  if (text(raw.mobile)) fields.mobile = text(raw.mobile);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text(raw.birthDate))) fields.birthDate = text(raw.birthDate);
+  if (VISA_STATUSES.includes(text(raw.visaStatus))) fields.visaStatus = text(raw.visaStatus);
+
+  const workHistory = (Array.isArray(raw.workHistory) ? raw.workHistory : [])
+    .map((entry: unknown): WorkHistoryEntry => {
+      const item = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+      return {
+        employer: text(item.employer),
+        role: text(item.role),
+        period: text(item.period),
+        description: text(item.description) || undefined,
+      };
+    })
+    .filter(entry => entry.employer || entry.role);
+  return { fields, workHistory };
+};
+
+// Reads the resume with the configured analysis provider. Throws an Error whose
+// message can be shown to the interviewer as-is.
+export const extractResume = async (file: File, signal?: AbortSignal): Promise<ResumeExtraction> => {
+  let response = '';
+  try {
+    const data = await readAsBase64(file);
+    for await (const chunk of analysisProvider.streamJson({
+      name: 'resume_profile',
+      prompt: PROMPT,
+      schema: RESUME_SCHEMA,
+      attachment: { fileName: file.name, mimeType: file.type, data },
+      signal,
+    })) {
+      response += chunk;
+    }
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    if (error instanceof AnalysisProviderError) throw new Error(ANALYSIS_ERROR_MESSAGES[error.code]);
+    console.error('Resume extraction failed:', error);
+    throw new Error('이력서 파일을 읽을 수 없습니다.');
+  }
+
+  try {
+    return normalizeExtraction(JSON.parse(response));
+  } catch {
+    console.error('Invalid resume extraction:', response);
+    throw new Error('이력서에서 정보를 읽어내지 못했습니다. 직접 입력해주세요.');
+  }
+};
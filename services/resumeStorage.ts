@@ -0,0 +1,94 @@
+import { v4 as uuidv4 } from 'uuid';
+import { InterviewRecord, LegacyResume, ResumeAttachment } from '../types';
+import { supabase } from './supabase';
+import { appConfig } from './config';
+
+const RESUME_BUCKET = 'resumes';
+const SIGNED_URL_TTL_SECONDS = 60;
+
+export const isLegacyResume = (resume: InterviewRecord['resume']): resume is LegacyResume =>
+  !!resume && 'fileData' in resume && !!resume.fileData;
+
+type ResumeOwner = Pick<InterviewRecord, 'id' | 'ownerId'>;
+
+// Storage keys only allow a restricted character set, so the original
+// file name is kept in the record metadata and the key uses a uuid.
+const buildStoragePath = (ownerId: string, recordId: string, fileName: string): string => {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase().replace(/[^a-z0-9]/g, '') : '';
+  return `${ownerId}/${recordId}/${uuidv4()}${extension ? `.${extension}` : ''}`;
+};
+
+// Files go under the record owner's folder, so the owner can read a resume an
+// admin attached. A record that was never synced belongs to whoever is saving it.
+export const uploadResume = async (record: ResumeOwner, file: Blob, fileName: string): Promise<ResumeAttachment> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) {
+    throw new Error('로그인이 필요합니다.');
+  }
+
+  const storagePath = buildStoragePath(record.ownerId || session.user.id, record.id, fileName);
+  const mimeType = file.type || 'application/octet-stream';
+
+  const { error } = await supabase.storage
+    .from(RESUME_BUCKET)
+    .upload(storagePath, file, { contentType: mimeType, upsert: false });
+
+  if (error) {
+    console.error('❌ Resume upload error:', error);
+    throw error;
+  }
+
+  return {
+    fileName,
+    storagePath,
+    size: file.size,
+    mimeType,
+    uploadedAt: Date.now()
+  };
+};
+
+const readAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// Attach a resume to a record through the configured backend. Without Supabase
+// the file stays on the record as a data url, the shape rows had before Storage.
+export const saveResume = async (record: ResumeOwner, file: Blob, fileName: string): Promise<ResumeAttachment | LegacyResume> => {
+  if (appConfig.recordBackend !== 'supabase') {
+    return { fileName, fileData: await readAsDataUrl(file) };
+  }
+  return uploadResume(record, file, fileName);
+};
+
+// Short-lived URL for downloading a private resume
+export const getResumeDownloadUrl = async (resume: ResumeAttachment): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(RESUME_BUCKET)
+    .createSignedUrl(resume.storagePath, SIGNED_URL_TTL_SECONDS, { download: resume.fileName });
+
+  if (error || !data) {
+    console.error('Error creating signed resume URL:', error);
+    throw error || new Error('Could not create download URL');
+  }
+
+  return data.signedUrl;
+};
+
+export const deleteResume = async (storagePath: string): Promise<void> => {
+  const { error } = await supabase.storage.from(RESUME_BUCKET).remove([storagePath]);
+
+  if (error) {
+    console.error('Error deleting resume from Storage:', error);
+    throw error;
+  }
+};
+
+// Upload a base64 resume from an older row to Storage and return the new metadata
+export const migrateLegacyResume = async (record: ResumeOwner, legacy: LegacyResume): Promise<ResumeAttachment> => {
+  const blob = await (await fetch(legacy.fileData)).blob();
+  return uploadResume(record, blob, legacy.fileName);
+};
@@ -0,0 +1,100 @@
+import { CandidateOutcome, PurgeLogEntry, RetentionPolicy } from '../types';
+import { supabase } from './supabase';
+import { deleteResume } from './resumeStorage';
+
+const POLICY_TABLE_NAME = 'retention_policies';
+const PURGE_LOG_TABLE_NAME = 'pii_purge_log';
+
+const mapPurgeLogFromDb = (row: any): PurgeLogEntry => ({
+  id: row.id,
+  recordId: row.record_id,
+  outcome: row.outcome,
+  retainMonths: row.retain_months,
+  purgedFields: row.purged_fields || [],
+  resumePath: row.resume_path ?? undefined,
+  resumeDeletedAt: row.resume_deleted_at ? new Date(row.resume_deleted_at).getTime() : undefined,
+  purgedAt: new Date(row.purged_at).getTime()
+});
+
+export const getRetentionPolicies = async (): Promise<RetentionPolicy[]> => {
+  const { data, error } = await supabase
+    .from(POLICY_TABLE_NAME)
+    .select('outcome, retain_months');
+
+  if (error) {
+    console.error('Error fetching retention policies:', error);
+    throw error;
+  }
+
+  return (data || []).map(row => ({ outcome: row.outcome, retainMonths: row.retain_months }));
+};
+
+export const updateRetentionPolicy = async (outcome: CandidateOutcome, retainMonths: number | null): Promise<void> => {
+  const { error } = await supabase
+    .from(POLICY_TABLE_NAME)
+    .upsert({ outcome, retain_months: retainMonths }, { onConflict: 'outcome' });
+
+  if (error) {
+    console.error('Error updating retention policy:', error);
+    throw error;
+  }
+};
+
+export const getPurgeLog = async (): Promise<PurgeLogEntry[]> => {
+  const { data, error } = await supabase
+    .from(PURGE_LOG_TABLE_NAME)
+    .select('*')
+    .order('purged_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching purge log:', error);
+    throw error;
+  }
+
+  return (data || []).map(mapPurgeLogFromDb);
+};
+
+// The SQL job can only clear the row's reference to a resume; the file itself
+// is removed here through the Storage API and then marked deleted in the log.
+export const deletePurgedResumes = async (): Promise<number> => {
+  const { data, error } = await supabase
+    .from(PURGE_LOG_TABLE_NAME)
+    .select('id, resume_path')
+    .not('resume_path', 'is', null)
+    .is('resume_deleted_at', null);
+
+  if (error) {
+    console.error('Error fetching purged resumes:', error);
+    throw error;
+  }
+
+  let deleted = 0;
+  for (const row of data || []) {
+    try {
+      await deleteResume(row.resume_path);
+      // Only counted once the log records it; otherwise the row is retried next run
+      const { error: updateError } = await supabase
+        .from(PURGE_LOG_TABLE_NAME)
+        .update({ resume_deleted_at: new Date().toISOString() })
+        .eq('id', row.id);
+      if (updateError) throw updateError;
+      deleted++;
+    } catch (e) {
+      console.error('Failed to delete purged resume:', row.resume_path, e);
+    }
+  }
+  return deleted;
+};
+
+// Run the retention job now and clean up the resumes it released
+export const runRetentionJob = async (): Promise<PurgeLogEntry[]> => {
+  const { data, error } = await supabase.rpc('anonymise_expired_candidates');
+
+  if (error) {
+    console.error('Error running retention job:', error);
+    throw error;
+  }
+
+  await deletePurgedResumes();
+  return (data || []).map(mapPurgeLogFromDb);
+};
@@ -0,0 +1,55 @@
+import { v4 as uuidv4 } from 'uuid';
+import { InterviewRecord, QuestionRatings, RecordRevision } from '../types';
+
+// Keys whose value differs between two answer maps, sorted for stable display
+export const getChangedQuestionIds = (
+  previous: Record<string, string>,
+  next: Record<string, string>
+): string[] => {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  return Array.from(keys)
+    .filter(key => (previous[key] ?? '') !== (next[key] ?? ''))
+    .sort();
+};
+
+// Question ids whose ratings differ, for the same changed list as the notes
+const getChangedRatingIds = (
+  previous: Record<string, QuestionRatings>,
+  next: Record<string, QuestionRatings>
+): string[] => {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  return Array.from(keys).filter(key => JSON.stringify(previous[key] || {}) !== JSON.stringify(next[key] || {}));
+};
+
+// Build the next revision for a save, or undefined when nothing changed.
+// Mirrors the record_interview_revision() trigger for non-Supabase backends.
+export const buildRevision = (
+  history: RecordRevision[],
+  record: InterviewRecord,
+  author: string
+): RecordRevision | undefined => {
+  const latest = history.reduce<RecordRevision | undefined>(
+    (acc, rev) => (!acc || rev.revision > acc.revision ? rev : acc),
+    undefined
+  );
+
+  const changedQuestionIds = Array.from(new Set([
+    ...getChangedQuestionIds(latest?.answers || {}, record.answers),
+    ...getChangedRatingIds(latest?.ratings || {}, record.ratings || {}),
+  ])).sort();
+  if (latest && changedQuestionIds.length === 0 && (latest.aiSummary || '') === (record.aiSummary || '')) {
+    return undefined;
+  }
+
+  return {
+    id: uuidv4(),
+    recordId: record.id,
+    revision: (latest?.revision || 0) + 1,
+    author,
+    createdAt: Date.now(),
+    changedQuestionIds,
+    answers: { ...record.answers },
+    ratings: structuredClone(record.ratings || {}),
+    aiSummary: record.aiSummary
+  };
+};
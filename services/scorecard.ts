@@ -0,0 +1,124 @@
+import { InterviewTemplate, QuestionRatings } from '../types';
+import { DEFAULT_RATING_SCALE } from '../constants';
+import { isSamePosition, isSectionShown } from './templateService';
+import { ConditionContext } from './conditionExpression';
+
+// Scores are on 0-100 with the lowest rating as 0: a checkpoint rated 4 on a
+// 1-5 scale counts as 75. Question scores average their rated checkpoints, stage
+// scores are the weighted mean of their rated questions, and the overall score is
+// the weighted mean of the rated stages. Unrated items are left out rather than
+// counted as zero, so a half-finished interview is scored on what was rated, but
+// there is no overall score or pass/fail until MIN_SCORED_COVERAGE is rated.
+
+// Share of the weighted questions that must be rated before the overall score counts
+export const MIN_SCORED_COVERAGE = 0.5;
+
+export interface StageScore {
+  stageId: string;
+  title: string;
+  weight: number;
+  score: number | null; // null when no question of the stage is rated
+  ratedQuestions: number;
+  totalQuestions: number;
+}
+
+export interface Scorecard {
+  stages: StageScore[];
+  overall: number | null; // null until MIN_SCORED_COVERAGE is rated
+  coverage: number; // 0-1, weighted share of the questions rated so far
+  threshold: number | null; // null when the template sets none for the position
+  passed: boolean | null; // null until there is both a score and a threshold
+}
+
+const weightOf = (item: { weight?: number }) => item.weight ?? 1;
+
+const weightedMean = (items: { score: number; weight: number }[]): number | null => {
+  const totalWeight = items.reduce((sum, item) => sum + item.weight, 0);
+  if (totalWeight <= 0) return null;
+  return items.reduce((sum, item) => sum + item.score * item.weight, 0) / totalWeight;
+};
+
+const roundScore = (score: number) => Math.round(score * 10) / 10;
+
+const questionScore = (ratings: QuestionRatings | undefined, max: number): number | null => {
+  const scores = Object.values(ratings || {})
+    .map(r => r.score)
+    .filter((s): s is number => typeof s === 'number');
+  if (scores.length === 0) return null;
+  const mean = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+  return ((mean - 1) / (max - 1)) * 100;
+};
+
+// Threshold for the position, falling back to the template's catch-all row
+export const getPassThreshold = (template: InterviewTemplate, position: string): number | null => {
+  const thresholds = template.passThresholds || [];
+  const exact = thresholds.find(t => t.position.trim() && isSamePosition(t.position, position));
+  const fallback = thresholds.find(t => !t.position.trim());
+  return (exact || fallback)?.minScore ?? null;
+};
+
+// context is the record's basicInfo and answers, which decide the sections shown
+export const computeScorecard = (
+  template: InterviewTemplate,
+  ratings: Record<string, QuestionRatings> = {},
+  context: ConditionContext
+): Scorecard => {
+  const max = (template.ratingScale || DEFAULT_RATING_SCALE).max;
+
+  // Every stage of the pinned template, retired ones included, so ratings given before a
+  // retirement still count. Retired questions and those in sections not shown to this
+  // candidate (another position, or a condition that does not hold) only count towards
+  // coverage once rated, as getStageProgress leaves them out of the total.
+  const stages = template.stages
+    .filter(stage => stage.type !== 'notice')
+    .map(stage => {
+      const questions = stage.sections
+        .flatMap(section => {
+          const shown = isSectionShown(section, context);
+          return (section.questions || []).map(q => ({
+            score: questionScore(ratings[q.id], max),
+            weight: weightOf(q),
+            optional: !shown || !!(stage.retired || section.retired || q.retired),
+          }));
+        })
+        .filter(q => q.weight > 0 && (q.score !== null || !q.optional));
+      const rated = questions.filter((q): q is typeof q & { score: number } => q.score !== null);
+      const sumWeights = (items: { weight: number }[]) => items.reduce((sum, q) => sum + q.weight, 0);
+      return {
+        stage,
+        score: weightedMean(rated),
+        ratedQuestions: rated.length,
+        totalQuestions: questions.length,
+        ratedWeight: sumWeights(rated) * weightOf(stage),
+        totalWeight: sumWeights(questions) * weightOf(stage),
+      };
+    });
+
+  const totalWeight = stages.reduce((sum, s) => sum + s.totalWeight, 0);
+  const coverage = totalWeight > 0 ? stages.reduce((sum, s) => sum + s.ratedWeight, 0) / totalWeight : 0;
+  const overall = coverage >= MIN_SCORED_COVERAGE
+    ? weightedMean(
+      stages
+        .filter(s => s.score !== null && weightOf(s.stage) > 0)
+        .map(s => ({ score: s.score!, weight: weightOf(s.stage) }))
+    )
+    : null;
+  const overallRounded = overall === null ? null : roundScore(overall);
+  const threshold = getPassThreshold(template, context.basicInfo.position || '');
+
+  return {
+    stages: stages.map(({ stage, score, ratedQuestions, totalQuestions }) => ({
+      stageId: stage.id,
+      title: stage.title,
+      weight: weightOf(stage),
+      score: score === null ? null : roundScore(score),
+      ratedQuestions,
+      totalQuestions,
+    })),
+    overall: overallRounded,
+    coverage,
+    threshold,
+    // Compared as displayed, so a score shown as 70.0 passes a threshold of 70
+    passed: overallRounded !== null && threshold !== null ? overallRounded >= threshold : null,
+  };
+};
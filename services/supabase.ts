@@ -6,7 +6,7 @@ const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
 if (!supabaseUrl || !supabaseAnonKey) {
-    console.error('Missing Supabase environment variables. Please check your .env file.');
+    console.warn('Supabase environment variables are not set. Records and sign-in stay on this device.');
 } else {
     // Hide key in logs for safety but confirm presence
     console.log('Supabase client initialized with URL:', supabaseUrl);
@@ -16,4 +16,6 @@ if (!supabaseUrl || !supabaseAnonKey) {
     }
 }
 
-export const supabase = createClient(supabaseUrl || '', supabaseAnonKey || '');
+// createClient throws on an empty URL, which would stop the local backends from
+// loading at all. The placeholder client is never called when Supabase is not configured.
+export const supabase = createClient(supabaseUrl || 'http://localhost', supabaseAnonKey || 'unconfigured');
@@ -0,0 +1,274 @@
+import { InterviewRecord, RecordConflict, RecordPage, RecordQuery, RecordRevision, RecordSortKey, ResumeAttachment, SaveResult, SearchHit } from '../types';
+import { supabase } from './supabase';
+import { REVISIONS_TABLE_NAME, TABLE_NAME, mapFromDb, mapRevisionFromDb } from './recordMapper';
+import { deleteLocalEntry } from './localStore';
+import { enqueueRecord, flushQueue, getLocalVersion, getOwnLocalEntries, getOwnLocalEntry, getSyncStatus, startSyncQueue, subscribeSyncStatus } from './syncQueue';
+import { deleteResume, isLegacyResume, migrateLegacyResume } from './resumeStorage';
+import { RecordRepository } from './recordRepository';
+import { DEFAULT_INTERVIEW_TYPE } from './interviewTypes';
+import { DEFAULT_PAGE_SIZE, compareRecords, findSearchHits, getInitialSyllableRange, getSearchKeywords, isInitialKeyword, matchesFilters } from './recordQuery';
+
+// Move a base64 resume still embedded in an older row into Storage as part of
+// saving it, so the row no longer carries the file.
+const migrateRecordResume = async (record: InterviewRecord): Promise<InterviewRecord> => {
+  if (!isLegacyResume(record.resume)) return record;
+
+  try {
+    const resume = await migrateLegacyResume(record, record.resume);
+    console.log('✅ Migrated legacy resume to Storage:', record.id);
+    return { ...record, resume };
+  } catch (error) {
+    // Keep the embedded copy usable until the next save
+    console.error('Legacy resume migration failed:', error);
+    return record;
+  }
+};
+
+// Records are written to IndexedDB first and uploaded by the sync queue,
+// so an interview survives a dropped connection. Resolves with the sync
+// status the record ended up in after the immediate upload attempt.
+const saveRecord = async (input: InterviewRecord): Promise<SaveResult> => {
+  const record = await migrateRecordResume(input);
+  console.log('Saving record locally:', record.id);
+  await enqueueRecord(record);
+
+  try {
+    await flushQueue();
+  } catch (error) {
+    console.error('Sync queue flush failed:', error);
+  }
+
+  const status = getSyncStatus(record.id) ?? 'pending';
+  return {
+    status,
+    version: status === 'synced' ? await getLocalVersion(record.id) : undefined,
+    resume: record !== input ? record.resume as ResumeAttachment : undefined
+  };
+};
+
+// The signed-in user's local records that have not reached Supabase yet
+const getUnsyncedRecords = async (): Promise<InterviewRecord[]> => {
+  try {
+    const entries = await getOwnLocalEntries();
+    return entries
+      .filter(entry => entry.syncStatus !== 'synced')
+      .map(entry => entry.record);
+  } catch (error) {
+    console.error('Error reading local records:', error);
+    return [];
+  }
+};
+
+const SORT_COLUMNS: Record<RecordSortKey, string> = {
+  date: 'basic_info->>date',
+  name: 'basic_info->>name',
+  created: 'created_at',
+  relevance: 'created_at',
+  score: 'overall_score'
+};
+
+const LIST_COLUMNS = 'id, basic_info, answers, ratings, overall_score, passed, status, ai_summary, ai_evaluation, outcome, anonymised_at, template_id, template_version, created_at';
+
+// Quote a value for a PostgREST or() filter so commas and parentheses stay literal
+const quoteFilterValue = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+const escapeLike = (value: string) => value.replace(/[%_]/g, '\\$&');
+
+// Names starting with the given Hangul initial
+const initialCondition = (keyword: string): string => {
+  const [from, to] = getInitialSyllableRange(keyword)!;
+  return `and(basic_info->>name.gte.${quoteFilterValue(from)},basic_info->>name.lt.${quoteFilterValue(to)})`;
+};
+
+// Place a page of unsynced local records among the server rows so both read as one
+// list in the same order. remote are the server rows from remoteFrom onwards, local
+// every matching local record in order; each local record comes before a server row
+// it sorts ahead of. Returns the merged items from offset, at most limit of them.
+const mergeLocalRecords = (
+  remote: InterviewRecord[],
+  remoteFrom: number,
+  local: InterviewRecord[],
+  isBefore: (local: InterviewRecord, remote: InterviewRecord) => boolean,
+  offset: number,
+  limit: number
+): InterviewRecord[] => {
+  // Local records ahead of the first fetched row. With no rows fetched past the
+  // first position, the window lies beyond every server row.
+  const ahead = remote.length > 0 ? local.filter(r => isBefore(r, remote[0])).length : remoteFrom === 0 ? 0 : local.length;
+  // List position of the first merged item
+  const base = remoteFrom === 0 ? 0 : remoteFrom + ahead;
+  const merged: InterviewRecord[] = remoteFrom === 0 ? local.slice(0, ahead) : [];
+  let i = 0;
+  let j = ahead;
+  while (i < remote.length || j < local.length) {
+    merged.push(j < local.length && (i >= remote.length || isBefore(local[j], remote[i])) ? local[j++] : remote[i++]);
+  }
+  return merged.slice(offset - base, offset - base + limit);
+};
+
+const getRecords = async (query: RecordQuery = {}): Promise<RecordPage> => {
+  const { filters = {}, sortBy = 'created', sortDirection = 'desc', offset = 0, limit = DEFAULT_PAGE_SIZE } = query;
+  const keywords = getSearchKeywords(filters.search);
+  const searchTerms = keywords.filter(keyword => !isInitialKeyword(keyword));
+
+  // Unsynced local copies take precedence over what the server has, so their
+  // server rows are left out and the local records are merged into the list
+  const unsynced = await getUnsyncedRecords();
+  const compare = compareRecords(sortBy, sortDirection);
+  const localMatches = unsynced.filter(r => matchesFilters(r, filters)).sort((a, b) => compare(a, b) || a.id.localeCompare(b.id));
+
+  // Text search goes through the ranked search_interview_records() RPC; the
+  // list filters, ordering and range are chained onto its result as usual
+  let request = searchTerms.length > 0
+    ? supabase
+      .rpc('search_interview_records', { search_query: searchTerms.join(' ') }, { count: 'exact' })
+      .select(`${LIST_COLUMNS}, search_rank, search_hits`)
+    : supabase
+      .from(TABLE_NAME)
+      .select(LIST_COLUMNS, { count: 'exact' });
+
+  if (unsynced.length > 0) request = request.not('id', 'in', `(${unsynced.map(r => quoteFilterValue(r.id)).join(',')})`);
+  if (filters.store) request = request.ilike('basic_info->>store', `%${escapeLike(filters.store)}%`);
+  if (filters.position) request = request.ilike('basic_info->>position', `%${escapeLike(filters.position)}%`);
+  if (filters.interviewer) request = request.ilike('basic_info->>interviewer', `%${escapeLike(filters.interviewer)}%`);
+  if (filters.dateFrom) request = request.gte('basic_info->>date', filters.dateFrom);
+  if (filters.dateTo) request = request.lte('basic_info->>date', filters.dateTo);
+  if (filters.status) request = request.eq('status', filters.status);
+  if (filters.aiRecommendation) request = request.eq('ai_evaluation->>recommendation', filters.aiRecommendation);
+  if (filters.interviewType === DEFAULT_INTERVIEW_TYPE) {
+    // Older records have no interviewType and count as STANDARD
+    request = request.or(`basic_info->>interviewType.is.null,basic_info->>interviewType.eq.${DEFAULT_INTERVIEW_TYPE}`);
+  } else if (filters.interviewType) {
+    request = request.eq('basic_info->>interviewType', filters.interviewType);
+  }
+  keywords.filter(isInitialKeyword).forEach(keyword => {
+    request = request.or(initialCondition(keyword));
+  });
+
+  if (sortBy === 'relevance' && searchTerms.length > 0) {
+    request = request.order('search_rank', { ascending: false });
+  }
+  // Up to one local record per position can come before the page, so the server
+  // rows are read from that many places earlier
+  const remoteFrom = Math.max(0, offset - localMatches.length);
+  const { data, error, count } = await request
+    .order(SORT_COLUMNS[sortBy], { ascending: sortDirection === 'asc', nullsFirst: false })
+    .order('id', { ascending: true })
+    .range(remoteFrom, offset + limit - 1);
+
+  if (error) {
+    console.error('Error fetching records from Supabase:', error);
+    const records = localMatches.slice(offset, offset + limit);
+    return {
+      records,
+      total: localMatches.length,
+      nextOffset: offset + limit < localMatches.length ? offset + limit : null,
+      hits: keywords.length > 0 ? Object.fromEntries(records.map(r => [r.id, findSearchHits(r, filters.search)])) : undefined
+    };
+  }
+
+  const rows = (data || []) as any[];
+  // Local records have no search rank, so under relevance they lead the list
+  const isBefore = sortBy === 'relevance' && searchTerms.length > 0
+    ? () => true
+    : (local: InterviewRecord, remote: InterviewRecord) => (compare(local, remote) || local.id.localeCompare(remote.id)) < 0;
+  const records = mergeLocalRecords(rows.map(mapFromDb), remoteFrom, localMatches, isBefore, offset, limit);
+  const total = (count ?? remoteFrom + rows.length) + localMatches.length;
+  const end = offset + limit;
+
+  let hits: Record<string, SearchHit[]> | undefined;
+  if (keywords.length > 0) {
+    const remoteHits = new Map<string, SearchHit[]>(rows.map(row => [row.id, row.search_hits || []]));
+    const localIds = new Set(localMatches.map(r => r.id));
+    hits = Object.fromEntries(records.map(r => [
+      r.id,
+      localIds.has(r.id) ? findSearchHits(r, filters.search) : remoteHits.get(r.id) || []
+    ]));
+  }
+
+  return {
+    records,
+    total,
+    nextOffset: end < total ? end : null,
+    hits
+  };
+};
+
+const deleteRecord = async (id: string): Promise<void> => {
+  await deleteLocalEntry(id);
+
+  const { data: existing } = await supabase
+    .from(TABLE_NAME)
+    .select('resume')
+    .eq('id', id)
+    .maybeSingle();
+
+  const { error } = await supabase
+    .from(TABLE_NAME)
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting record from Supabase:', error);
+    throw error;
+  }
+
+  const resume = existing?.resume;
+  if (resume?.storagePath) {
+    // The row is already gone; a leftover file is not worth failing the delete over
+    await deleteResume(resume.storagePath).catch(() => undefined);
+  }
+};
+
+const getRecordById = async (id: string): Promise<InterviewRecord | undefined> => {
+  const local = await getOwnLocalEntry(id).catch(() => undefined);
+  if (local && local.syncStatus !== 'synced') {
+    return local.record;
+  }
+
+  const { data, error } = await supabase
+    .from(TABLE_NAME)
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    console.error('Error fetching record by ID from Supabase:', error);
+    // Fall back to the last copy saved on this device
+    return local?.record;
+  }
+
+  return data ? mapFromDb(data) : undefined;
+};
+
+const getConflict = async (id: string): Promise<RecordConflict | undefined> => {
+  const entry = await getOwnLocalEntry(id);
+  if (entry?.syncStatus !== 'conflict' || !entry.conflict) return undefined;
+  return { mine: entry.record, theirs: entry.conflict };
+};
+
+// Revisions are appended by the record_interview_revision() trigger on every upsert
+const getRevisions = async (recordId: string): Promise<RecordRevision[]> => {
+  const { data, error } = await supabase
+    .from(REVISIONS_TABLE_NAME)
+    .select('*')
+    .eq('record_id', recordId)
+    .order('revision', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching revisions from Supabase:', error);
+    throw error;
+  }
+
+  return (data || []).map(mapRevisionFromDb);
+};
+
+export const createSupabaseRecordRepository = (): RecordRepository => ({
+  start: startSyncQueue,
+  saveRecord,
+  getRecords,
+  getRecordById,
+  deleteRecord,
+  getConflict,
+  getRevisions,
+  subscribeSyncStatus
+});
@@ -0,0 +1,233 @@
+import { InterviewRecord, SyncStatus, SyncStatusMap } from '../types';
+import { supabase } from './supabase';
+import { TABLE_NAME, mapFromDb, mapToDb } from './recordMapper';
+import { deleteLocalEntry, getAllLocalEntries, getLocalEntry, putLocalEntry, LocalRecordEntry } from './localStore';
+
+const RETRY_INTERVAL_MS = 30_000;
+
+type SyncListener = (statuses: SyncStatusMap) => void;
+
+const listeners = new Set<SyncListener>();
+let statuses: SyncStatusMap = {};
+// Server versions of records uploaded this session. Their device copies are deleted
+// once synced, so candidate PII (and its later anonymisation) stays on the server.
+const syncedVersions = new Map<string, number>();
+let flushPromise: Promise<void> | null = null;
+let started = false;
+
+const notify = () => {
+  listeners.forEach(listener => listener(statuses));
+};
+
+const setStatus = (id: string, status: SyncStatus) => {
+  statuses = { ...statuses, [id]: status };
+  notify();
+};
+
+export const getSyncStatus = (id: string): SyncStatus | undefined => statuses[id];
+
+// Subscribe to per-record sync status changes. Returns an unsubscribe function.
+export const subscribeSyncStatus = (listener: SyncListener): (() => void) => {
+  listeners.add(listener);
+  listener(statuses);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// Thrown when the server copy has moved on since the record was loaded
+export class RecordConflictError extends Error {
+  constructor(public remote: InterviewRecord) {
+    super('다른 사용자가 먼저 이 기록을 수정했습니다.');
+    this.name = 'RecordConflictError';
+  }
+}
+
+const fetchRemoteRecord = async (id: string): Promise<InterviewRecord | undefined> => {
+  const { data, error } = await supabase.from(TABLE_NAME).select('*').eq('id', id).maybeSingle();
+  if (error) throw new Error(`${error.message} (Code: ${error.code})`);
+  return data ? mapFromDb(data) : undefined;
+};
+
+// Session is read from local storage, so this works without a round trip
+const getSessionUserId = async (): Promise<string | undefined> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user.id;
+};
+
+// Entries saved on this device by the signed-in user. A shared tablet may also
+// hold another manager's unsynced interviews; those stay queued for them.
+export const getOwnLocalEntries = async (): Promise<LocalRecordEntry[]> => {
+  const userId = await getSessionUserId();
+  if (!userId) return [];
+  return (await getAllLocalEntries()).filter(entry => entry.ownerId === userId);
+};
+
+export const getOwnLocalEntry = async (id: string): Promise<LocalRecordEntry | undefined> => {
+  const [entry, userId] = await Promise.all([getLocalEntry(id), getSessionUserId()]);
+  return entry && userId && entry.ownerId === userId ? entry : undefined;
+};
+
+// Write a single record to Supabase and return the new server version.
+// New records are inserted under the user who saved them; existing ones are only
+// updated if the server is still at the version they were based on. Throws on any failure.
+const pushRecord = async (record: InterviewRecord, ownerId: string): Promise<number> => {
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+  const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Supabase 환경 변수(VITE_SUPABASE_URL, VITE_SUPABASE_ANON_KEY)가 설정되지 않았습니다.');
+  }
+
+  if ((await getSessionUserId()) !== ownerId) {
+    throw new Error('로그인이 필요합니다.');
+  }
+
+  if (!record.version) {
+    const { data, error } = await supabase
+      .from(TABLE_NAME)
+      .insert({ ...mapToDb(record), user_id: ownerId })
+      .select('version')
+      .single();
+
+    if (error?.code === '23505') {
+      const remote = await fetchRemoteRecord(record.id);
+      if (remote) throw new RecordConflictError(remote);
+    }
+    if (error) throw new Error(`${error.message} (Code: ${error.code})`);
+    return data.version;
+  }
+
+  const { data, error } = await supabase
+    .from(TABLE_NAME)
+    .update(mapToDb(record))
+    .eq('id', record.id)
+    .eq('version', record.version)
+    .select('version');
+
+  if (error) throw new Error(`${error.message} (Code: ${error.code})`);
+  if (data && data.length > 0) return data[0].version;
+
+  // Nothing matched: either someone else saved first or the row is gone
+  const remote = await fetchRemoteRecord(record.id);
+  if (remote) throw new RecordConflictError(remote);
+  throw new Error('서버에서 삭제된 기록입니다.');
+};
+
+const syncEntry = async (entry: LocalRecordEntry): Promise<void> => {
+  let version: number;
+  try {
+    version = await pushRecord(entry.record, entry.ownerId!);
+  } catch (error: any) {
+    // Lost the connection mid-request: keep it queued rather than failing it
+    const isConflict = error instanceof RecordConflictError;
+    const status: SyncStatus = isConflict ? 'conflict' : isOffline() ? 'pending' : 'failed';
+    console.error('❌ Sync failed for record:', entry.id, error);
+
+    // The record may have been edited again while the request was in flight
+    const latest = await getLocalEntry(entry.id);
+    if (latest && latest.updatedAt === entry.updatedAt) {
+      await putLocalEntry({
+        ...latest,
+        syncStatus: status,
+        syncError: error?.message,
+        conflict: isConflict ? error.remote : undefined
+      });
+      setStatus(entry.id, status);
+    }
+    return;
+  }
+
+  const latest = await getLocalEntry(entry.id);
+  if (!latest) return;
+  if (latest.updatedAt === entry.updatedAt) {
+    syncedVersions.set(entry.id, version);
+    await deleteLocalEntry(entry.id);
+    setStatus(entry.id, 'synced');
+  } else {
+    // Edited again meanwhile: the newer copy now builds on the version just written
+    await putLocalEntry({ ...latest, record: { ...latest.record, version: Math.max(latest.record.version || 0, version) } });
+  }
+};
+
+const runFlush = async (): Promise<void> => {
+  const entries = await getOwnLocalEntries();
+  const queued = entries
+    // Conflicts wait for the user to merge them
+    .filter(entry => entry.syncStatus === 'pending' || entry.syncStatus === 'failed')
+    .sort((a, b) => a.updatedAt - b.updatedAt);
+
+  for (const entry of queued) {
+    if (isOffline()) return;
+    await syncEntry(entry);
+  }
+};
+
+// Push every unsynced record to Supabase. Concurrent calls share one run,
+// and a call made during a run triggers another pass once it finishes.
+export const flushQueue = async (): Promise<void> => {
+  if (isOffline()) return;
+
+  if (flushPromise) {
+    await flushPromise;
+    return flushQueue();
+  }
+
+  flushPromise = runFlush().finally(() => {
+    flushPromise = null;
+  });
+  return flushPromise;
+};
+
+// Write a record to the local store and queue it for upload.
+// A copy saved earlier on this device may already have synced and moved the
+// server version on; the newer of the two base versions is kept so an
+// editor's own earlier save never registers as a conflict.
+export const enqueueRecord = async (record: InterviewRecord): Promise<void> => {
+  const ownerId = await getSessionUserId();
+  if (!ownerId) {
+    throw new Error('로그인이 필요합니다.');
+  }
+  const existing = await getOwnLocalEntry(record.id);
+  const version = Math.max(record.version || 0, existing?.record.version || 0, syncedVersions.get(record.id) || 0) || undefined;
+
+  await putLocalEntry({
+    id: record.id,
+    record: { ...record, version },
+    ownerId,
+    syncStatus: 'pending',
+    updatedAt: Date.now()
+  });
+  setStatus(record.id, 'pending');
+};
+
+export const getLocalVersion = async (id: string): Promise<number | undefined> =>
+  (await getOwnLocalEntry(id))?.record.version ?? syncedVersions.get(id);
+
+// Load statuses from the local store and flush whenever the browser comes back online
+export const startSyncQueue = async (): Promise<void> => {
+  if (started) return;
+  started = true;
+
+  try {
+    const entries = await getAllLocalEntries();
+    // Synced copies left behind by earlier versions of the app
+    const synced = entries.filter(entry => entry.syncStatus === 'synced');
+    await Promise.all(synced.map(entry => deleteLocalEntry(entry.id)));
+    statuses = Object.fromEntries(entries.filter(entry => entry.syncStatus !== 'synced').map(entry => [entry.id, entry.syncStatus]));
+    notify();
+  } catch (error) {
+    console.error('Failed to read local records:', error);
+  }
+
+  window.addEventListener('online', () => {
+    flushQueue().catch(error => console.error('Sync queue flush failed:', error));
+  });
+  setInterval(() => {
+    flushQueue().catch(error => console.error('Sync queue flush failed:', error));
+  }, RETRY_INTERVAL_MS);
+
+  flushQueue().catch(error => console.error('Sync queue flush failed:', error));
+};
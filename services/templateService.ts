@@ -0,0 +1,249 @@
+import { InterviewRecord, InterviewTemplate, Section, Stage } from '../types';
+import { POSITIONS } from '../constants';
+import { BUNDLED_TRANSLATIONS } from '../constants_translations';
+import { supabase } from './supabase';
+import { appConfig } from './config';
+import { ConditionContext, ConditionError, isSectionVisible, validateTemplateConditions } from './conditionExpression';
+import { DEFAULT_INTERVIEW_TYPE, INTERVIEW_TYPES } from './interviewTypes';
+
+const TEMPLATE_TABLE_NAME = 'interview_templates';
+const TEMPLATE_STORAGE_KEY = 'elleo-interview-templates';
+
+// Bundled question banks (version 0), used until an admin saves a template of that type
+export const DEFAULT_TEMPLATES: InterviewTemplate[] = INTERVIEW_TYPES.map(type => ({
+  id: type.id,
+  version: 0,
+  name: type.name,
+  stages: type.stages,
+  translations: BUNDLED_TRANSLATIONS,
+}));
+
+// Thrown when another admin saved the same template first
+export class TemplateVersionConflictError extends Error {
+  constructor(templateId: string) {
+    super(`Template ${templateId} was saved by someone else`);
+    this.name = 'TemplateVersionConflictError';
+  }
+}
+
+// Thrown instead of saving a template whose section conditions do not parse
+export class TemplateConditionError extends Error {
+  constructor(templateId: string, public errors: ConditionError[]) {
+    super(`Template ${templateId} has ${errors.length} invalid condition(s)`);
+    this.name = 'TemplateConditionError';
+  }
+}
+
+// Versions never change once saved, so each one is fetched at most once
+const versionCache = new Map<string, InterviewTemplate>();
+const cacheKey = (id: string, version: number) => `${id}@${version}`;
+DEFAULT_TEMPLATES.forEach(t => versionCache.set(cacheKey(t.id, t.version), t));
+
+// Broken conditions fall back to showing the section; flag them as soon as a template
+// loads. The template editor lists them too, and saveTemplate refuses them.
+const reportConditionErrors = (template: InterviewTemplate) => {
+  validateTemplateConditions(template.stages).forEach(error => {
+    console.warn(`⚠️ Invalid condition in template ${template.id} v${template.version}, section ${error.sectionId}: "${error.condition}" - ${error.message}`);
+  });
+};
+
+const mapTemplateFromDb = (row: any): InterviewTemplate => ({
+  id: row.id,
+  version: row.version,
+  name: row.name,
+  stages: row.stages || [],
+  positions: row.positions ?? undefined,
+  ratingScale: row.rating_scale ?? undefined,
+  passThresholds: row.pass_thresholds ?? undefined,
+  translations: row.translations ?? undefined,
+  updatedAt: row.updated_at ? new Date(row.updated_at).getTime() : undefined
+});
+
+// Templates follow the record backend, so local demos can edit them too
+const readLocalTemplates = (): InterviewTemplate[] => {
+  try {
+    const stored: InterviewTemplate[] = JSON.parse(localStorage.getItem(TEMPLATE_STORAGE_KEY) || '[]');
+    // Saved before versioning
+    return stored.map(t => ({ ...t, version: t.version ?? 1 }));
+  } catch (error) {
+    console.error('Error reading templates from localStorage:', error);
+    return [];
+  }
+};
+
+const fetchSavedTemplates = async (): Promise<InterviewTemplate[]> => {
+  if (appConfig.recordBackend !== 'supabase') {
+    return readLocalTemplates();
+  }
+
+  const { data, error } = await supabase
+    .from(TEMPLATE_TABLE_NAME)
+    .select('*')
+    .order('version', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching templates from Supabase:', error);
+    throw error;
+  }
+
+  return (data || []).map(mapTemplateFromDb);
+};
+
+// Latest version of every template
+export const getTemplates = async (): Promise<InterviewTemplate[]> => {
+  const saved = await fetchSavedTemplates();
+  saved.forEach(t => versionCache.set(cacheKey(t.id, t.version), t));
+
+  const latest = DEFAULT_TEMPLATES.map(template =>
+    saved
+      .filter(t => t.id === template.id)
+      .reduce((newest, t) => (t.version > newest.version ? t : newest), template)
+  );
+  latest.forEach(reportConditionErrors);
+  return latest;
+};
+
+export const getTemplateVersion = async (id: InterviewTemplate['id'], version: number): Promise<InterviewTemplate> => {
+  const cached = versionCache.get(cacheKey(id, version));
+  if (cached) return cached;
+
+  let template: InterviewTemplate | undefined;
+  if (appConfig.recordBackend !== 'supabase') {
+    template = readLocalTemplates().find(t => t.id === id && t.version === version);
+  } else {
+    const { data, error } = await supabase
+      .from(TEMPLATE_TABLE_NAME)
+      .select('*')
+      .eq('id', id)
+      .eq('version', version)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching template version from Supabase:', error);
+      throw error;
+    }
+    template = data ? mapTemplateFromDb(data) : undefined;
+  }
+
+  if (!template) {
+    throw new Error(`Template ${id} version ${version} not found`);
+  }
+  reportConditionErrors(template);
+  versionCache.set(cacheKey(id, version), template);
+  return template;
+};
+
+// Records from before versioning were run with the bundled bank of their interview type
+const getRecordTemplatePin = (record: InterviewRecord) => ({
+  id: record.templateId || record.basicInfo.interviewType || DEFAULT_INTERVIEW_TYPE,
+  version: record.templateVersion ?? 0
+});
+
+// Identifies the template version a record was run with, e.g. for grouping records
+export const getRecordTemplateKey = (record: InterviewRecord): string => {
+  const { id, version } = getRecordTemplatePin(record);
+  return cacheKey(id, version);
+};
+
+// The template a record was run with
+export const getRecordTemplate = (record: InterviewRecord): Promise<InterviewTemplate> => {
+  const { id, version } = getRecordTemplatePin(record);
+  return getTemplateVersion(id, version);
+};
+
+// Saves the edited template as the next version after the one it was based on
+export const saveTemplate = async (template: InterviewTemplate): Promise<InterviewTemplate> => {
+  const conditionErrors = validateTemplateConditions(template.stages);
+  if (conditionErrors.length > 0) {
+    throw new TemplateConditionError(template.id, conditionErrors);
+  }
+  const next: InterviewTemplate = { ...template, version: template.version + 1, updatedAt: Date.now() };
+
+  if (appConfig.recordBackend !== 'supabase') {
+    const stored = readLocalTemplates();
+    if (stored.some(t => t.id === next.id && t.version >= next.version)) {
+      throw new TemplateVersionConflictError(next.id);
+    }
+    localStorage.setItem(TEMPLATE_STORAGE_KEY, JSON.stringify([...stored, next]));
+    versionCache.set(cacheKey(next.id, next.version), next);
+    return next;
+  }
+
+  const { data, error } = await supabase
+    .from(TEMPLATE_TABLE_NAME)
+    .insert({
+      id: next.id,
+      version: next.version,
+      name: next.name,
+      stages: next.stages,
+      positions: next.positions ?? null,
+      rating_scale: next.ratingScale ?? null,
+      pass_thresholds: next.passThresholds ?? null,
+      translations: next.translations ?? null
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving template to Supabase:', error);
+    // unique_violation on (id, version)
+    if (error.code === '23505') throw new TemplateVersionConflictError(next.id);
+    throw error;
+  }
+
+  const saved = mapTemplateFromDb(data);
+  versionCache.set(cacheKey(saved.id, saved.version), saved);
+  return saved;
+};
+
+const hasAnswer = (answers: Record<string, string>, id: string) => !!answers[id]?.trim();
+
+// Stages as offered in the form. Retired items are left out unless the record
+// already has an answer for one of their questions.
+export const getActiveStages = (stages: Stage[], answers: Record<string, string> = {}): Stage[] =>
+  stages.flatMap(stage => {
+    const sections = stage.sections.flatMap(section => {
+      const questions = section.questions?.filter(q => !q.retired || hasAnswer(answers, q.id));
+      const answered = questions?.some(q => hasAnswer(answers, q.id));
+
+      if ((stage.retired || section.retired) && !answered) return [];
+      if (section.questions && questions!.length === 0 && !section.notices?.length) return [];
+      return [{ ...section, questions }];
+    });
+
+    return sections.length > 0 ? [{ ...stage, sections }] : [];
+  });
+
+// Every question of a template, retired ones included, for looking up answer keys
+export const getTemplateQuestions = (stages: Stage[]) =>
+  stages.flatMap(stage => stage.sections.flatMap(section => section.questions || []));
+
+// Follow-up notes live next to the question notes in record.answers
+export const getFollowUpAnswerKey = (followUpId: string) => `followup-${followUpId}`;
+
+// Answer key -> text to label it with: the question, or "↳ follow-up" for follow-up notes
+export const getAnswerTexts = (stages: Stage[]): Map<string, string> => {
+  const texts = new Map<string, string>();
+  getTemplateQuestions(stages).forEach(q => {
+    texts.set(q.id, q.text);
+    q.followUps?.forEach(f => texts.set(getFollowUpAnswerKey(f.id), `↳ ${f.text}`));
+  });
+  return texts;
+};
+
+export const isSamePosition = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Positions to pick from when interviewing with the template
+export const getTemplatePositions = (template: InterviewTemplate): string[] =>
+  template.positions?.length ? template.positions : POSITIONS;
+
+// Sections limited to some positions are offered only to those candidates, or
+// when the record already has answers in them (e.g. the position was changed later)
+export const isSectionForPosition = (section: Section, position: string, answers: Record<string, string> = {}): boolean =>
+  !section.positions?.length ||
+  section.positions.some(p => isSamePosition(p, position)) ||
+  (section.questions || []).some(q => hasAnswer(answers, q.id));
+
+// Whether the form shows the section for what has been entered so far
+export const isSectionShown = (section: Section, context: ConditionContext): boolean =>
+  isSectionForPosition(section, context.basicInfo.position || '', context.answers) && isSectionVisible(section, context);
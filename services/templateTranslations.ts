@@ -0,0 +1,50 @@
+import { InterviewLanguage, InterviewTemplate, Stage, TemplateTranslations } from '../types';
+
+export type TranslatableKind = 'question' | 'followUp' | 'checkpoint' | 'notice';
+
+export interface TranslatableText {
+  text: string;
+  kind: TranslatableKind;
+  stageTitle: string;
+}
+
+// Korean is the source language; missing translations fall back to it
+export const translateText = (template: Pick<InterviewTemplate, 'translations'>, language: InterviewLanguage, text: string): string =>
+  (language !== 'ko' && template.translations?.[language]?.[text.trim()]?.trim()) || text;
+
+// Every distinct question, follow-up, checkpoint and notice of the stages, in template order.
+// Good/bad answer guidance is for the interviewer and stays Korean.
+export const getTranslatableTexts = (stages: Stage[]): TranslatableText[] => {
+  const seen = new Set<string>();
+  const texts: TranslatableText[] = [];
+  const add = (text: string, kind: TranslatableKind, stageTitle: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || seen.has(trimmed)) return;
+    seen.add(trimmed);
+    texts.push({ text: trimmed, kind, stageTitle });
+  };
+
+  stages.forEach(stage => stage.sections.forEach(section => {
+    section.questions?.forEach(q => {
+      add(q.text, 'question', stage.title);
+      q.followUps?.forEach(f => add(f.text, 'followUp', stage.title));
+      q.checkpoints.forEach(c => add(c, 'checkpoint', stage.title));
+    });
+    section.notices?.forEach(n => add(n, 'notice', stage.title));
+  }));
+  return texts;
+};
+
+// Drops blank entries and translations of texts the stages no longer contain
+export const pruneTranslations = (translations: TemplateTranslations | undefined, stages: Stage[]): TemplateTranslations | undefined => {
+  if (!translations) return undefined;
+  const texts = new Set(getTranslatableTexts(stages).map(t => t.text));
+
+  const pruned: TemplateTranslations = {};
+  (Object.keys(translations) as InterviewLanguage[]).forEach(language => {
+    const entries = Object.entries(translations[language] || {})
+      .filter(([text, translated]) => texts.has(text) && translated.trim());
+    if (entries.length > 0) pruned[language] = Object.fromEntries(entries);
+  });
+  return Object.keys(pruned).length > 0 ? pruned : undefined;
+};
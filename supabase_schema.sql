@@ -96,3 +96,701 @@ CREATE POLICY "Managers can delete own records"
   ON public.interview_records
   FOR DELETE
   USING ( auth.uid() = user_id );
+
+
+-- 7. Private storage bucket for resume attachments
+-- Files live under <user_id>/<record_id>/..., where user_id is the record's owner
+-- (also for files an admin attached), and rows only keep the path and metadata.
+-- Rows that still embed a base64 resume (resume->>'fileData') are migrated by the
+-- app the next time the record is saved.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('resumes', 'resumes', false)
+ON CONFLICT (id) DO NOTHING;
+
+DO $$ 
+BEGIN
+    DROP POLICY IF EXISTS "Admins can manage all resumes" ON storage.objects;
+    DROP POLICY IF EXISTS "Managers can read own resumes" ON storage.objects;
+    DROP POLICY IF EXISTS "Managers can upload own resumes" ON storage.objects;
+    DROP POLICY IF EXISTS "Managers can delete own resumes" ON storage.objects;
+END $$;
+
+CREATE POLICY "Admins can manage all resumes"
+  ON storage.objects
+  FOR ALL
+  USING (
+    bucket_id = 'resumes' AND EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Managers can read own resumes"
+  ON storage.objects
+  FOR SELECT
+  USING ( bucket_id = 'resumes' AND (storage.foldername(name))[1] = auth.uid()::text );
+
+CREATE POLICY "Managers can upload own resumes"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK ( bucket_id = 'resumes' AND (storage.foldername(name))[1] = auth.uid()::text );
+
+CREATE POLICY "Managers can delete own resumes"
+  ON storage.objects
+  FOR DELETE
+  USING ( bucket_id = 'resumes' AND (storage.foldername(name))[1] = auth.uid()::text );
+
+
+-- 8. Immutable revision history for interview_records
+-- Every insert/update that changes answers or ai_summary appends a revision.
+-- Revisions are written only by the trigger and cannot be updated or deleted by users.
+CREATE TABLE IF NOT EXISTS public.interview_record_revisions (
+  id uuid primary key default gen_random_uuid(),
+  record_id uuid not null references public.interview_records(id) on delete cascade,
+  revision integer not null,
+  author_id uuid references auth.users(id),
+  author_email text,
+  created_at timestamptz not null default now(),
+  changed_question_ids text[] not null default '{}',
+  answers jsonb not null default '{}'::jsonb,
+  ai_summary text,
+  unique (record_id, revision)
+);
+
+alter table public.interview_record_revisions enable row level security;
+
+create or replace function public.record_interview_revision()
+returns trigger as $$
+declare
+  changed text[];
+  next_revision integer;
+begin
+  IF TG_OP = 'UPDATE'
+     AND NEW.answers IS NOT DISTINCT FROM OLD.answers
+     AND NEW.ai_summary IS NOT DISTINCT FROM OLD.ai_summary THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT coalesce(array_agg(key ORDER BY key), '{}')
+  INTO changed
+  FROM jsonb_each_text(coalesce(NEW.answers, '{}'::jsonb)) n
+  FULL JOIN (
+    SELECT * FROM jsonb_each_text(CASE WHEN TG_OP = 'UPDATE' THEN coalesce(OLD.answers, '{}'::jsonb) ELSE '{}'::jsonb END)
+  ) o USING (key)
+  WHERE n.value IS DISTINCT FROM o.value;
+
+  SELECT coalesce(max(revision), 0) + 1
+  INTO next_revision
+  FROM public.interview_record_revisions
+  WHERE record_id = NEW.id;
+
+  INSERT INTO public.interview_record_revisions
+    (record_id, revision, author_id, author_email, changed_question_ids, answers, ai_summary)
+  VALUES
+    (NEW.id, next_revision, auth.uid(), auth.jwt() ->> 'email', changed, coalesce(NEW.answers, '{}'::jsonb), NEW.ai_summary);
+
+  RETURN NEW;
+end;
+$$ language plpgsql security definer;
+
+DROP TRIGGER IF EXISTS on_interview_record_saved ON public.interview_records;
+create trigger on_interview_record_saved
+  after insert or update on public.interview_records
+  for each row execute procedure public.record_interview_revision();
+
+DO $$ 
+BEGIN
+    DROP POLICY IF EXISTS "Admins can view all revisions" ON interview_record_revisions;
+    DROP POLICY IF EXISTS "Managers can view revisions of own records" ON interview_record_revisions;
+END $$;
+
+CREATE POLICY "Admins can view all revisions"
+  ON public.interview_record_revisions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Managers can view revisions of own records"
+  ON public.interview_record_revisions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.interview_records
+      WHERE interview_records.id = record_id AND interview_records.user_id = auth.uid()
+    )
+  );
+
+
+-- 9. Indexes for paged list queries (sorting and filtering on basic_info fields)
+CREATE INDEX IF NOT EXISTS interview_records_created_at_idx ON public.interview_records (created_at DESC);
+CREATE INDEX IF NOT EXISTS interview_records_date_idx ON public.interview_records ((basic_info->>'date'));
+CREATE INDEX IF NOT EXISTS interview_records_name_idx ON public.interview_records ((basic_info->>'name'));
+CREATE INDEX IF NOT EXISTS interview_records_store_idx ON public.interview_records ((basic_info->>'store'));
+
+
+-- 10. Optimistic concurrency for interview_records
+-- Clients update with "WHERE version = <version they loaded>"; when no row matches,
+-- someone else saved first and the client shows a merge dialog instead of overwriting.
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_records' AND column_name='version') THEN
+    ALTER TABLE public.interview_records ADD COLUMN version integer NOT NULL DEFAULT 1;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_records' AND column_name='updated_at') THEN
+    ALTER TABLE public.interview_records ADD COLUMN updated_at timestamptz NOT NULL DEFAULT now();
+  END IF;
+END $$;
+
+create or replace function public.bump_interview_record_version()
+returns trigger as $$
+begin
+  NEW.version := OLD.version + 1;
+  NEW.updated_at := now();
+  return NEW;
+end;
+$$ language plpgsql;
+
+DROP TRIGGER IF EXISTS on_interview_record_update_version ON public.interview_records;
+create trigger on_interview_record_update_version
+  before update on public.interview_records
+  for each row execute procedure public.bump_interview_record_version();
+
+
+-- 11. Candidate PII retention
+-- Each record has an outcome; retention_policies says how many months after the
+-- interview date PII is kept for that outcome (NULL = keep indefinitely).
+-- anonymise_expired_candidates() scrubs contact/visa fields and the resume but keeps
+-- position, store, date and the answers for analytics. Every purge is logged.
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_records' AND column_name='outcome') THEN
+    ALTER TABLE public.interview_records ADD COLUMN outcome text NOT NULL DEFAULT 'pending'
+      CHECK (outcome in ('pending', 'hired', 'rejected', 'withdrawn'));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_records' AND column_name='anonymised_at') THEN
+    ALTER TABLE public.interview_records ADD COLUMN anonymised_at timestamptz;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.retention_policies (
+  outcome text primary key check (outcome in ('pending', 'hired', 'rejected', 'withdrawn')),
+  retain_months integer check (retain_months is null or retain_months > 0)
+);
+
+INSERT INTO public.retention_policies (outcome, retain_months) VALUES
+  ('rejected', 12),
+  ('withdrawn', 12),
+  ('pending', 24),
+  ('hired', NULL)
+ON CONFLICT (outcome) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.pii_purge_log (
+  id uuid primary key default gen_random_uuid(),
+  record_id uuid not null,
+  outcome text not null,
+  retain_months integer not null,
+  purged_fields text[] not null,
+  resume_path text, -- Storage object still to be removed by an admin client
+  resume_deleted_at timestamptz,
+  purged_at timestamptz not null default now()
+);
+
+alter table public.retention_policies enable row level security;
+alter table public.pii_purge_log enable row level security;
+
+DO $$ 
+BEGIN
+    DROP POLICY IF EXISTS "Admins can manage retention policies" ON retention_policies;
+    DROP POLICY IF EXISTS "Admins can view purge log" ON pii_purge_log;
+    DROP POLICY IF EXISTS "Admins can mark resumes deleted" ON pii_purge_log;
+END $$;
+
+CREATE POLICY "Admins can manage retention policies"
+  ON public.retention_policies
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can view purge log"
+  ON public.pii_purge_log
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can mark resumes deleted"
+  ON public.pii_purge_log
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+create or replace function public.anonymise_expired_candidates()
+returns setof public.pii_purge_log as $$
+declare
+  pii_fields text[] := array['email', 'mobile', 'birthDate', 'visaStatus', 'visaExpiryDate'];
+  expired record;
+  log_row public.pii_purge_log;
+begin
+  -- Runs without a user only from pg_cron (connected as postgres) or with the
+  -- service role key; interactive runs are admin-only
+  IF auth.uid() IS NULL THEN
+    IF coalesce(auth.role(), '') <> 'service_role' AND session_user <> 'postgres' THEN
+      RAISE EXCEPTION 'Only admins can run the retention job';
+    END IF;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can run the retention job';
+  END IF;
+
+  FOR expired IN
+    SELECT ir.id, ir.outcome, ir.resume, p.retain_months
+    FROM public.interview_records ir
+    JOIN public.retention_policies p ON p.outcome = ir.outcome
+    WHERE p.retain_months IS NOT NULL
+      AND ir.anonymised_at IS NULL
+      AND (CASE WHEN ir.basic_info->>'date' ~ '^\d{4}-\d{2}-\d{2}$'
+                THEN (ir.basic_info->>'date')::date
+                ELSE ir.created_at::date END) < current_date - make_interval(months => p.retain_months)
+  LOOP
+    UPDATE public.interview_records
+    SET basic_info = (basic_info - pii_fields) || jsonb_build_object('name', '익명 지원자'),
+        resume = NULL,
+        anonymised_at = now()
+    WHERE id = expired.id;
+
+    INSERT INTO public.pii_purge_log (record_id, outcome, retain_months, purged_fields, resume_path)
+    VALUES (expired.id, expired.outcome, expired.retain_months, array_append(pii_fields, 'name'), expired.resume->>'storagePath')
+    RETURNING * INTO log_row;
+
+    RETURN NEXT log_row;
+  END LOOP;
+end;
+$$ language plpgsql security definer;
+
+-- Supabase grants EXECUTE on new functions to anon; the purge must not be reachable
+-- with just the anon key. The privileges survive the later create or replace.
+REVOKE EXECUTE ON FUNCTION public.anonymise_expired_candidates() FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.anonymise_expired_candidates() TO authenticated, service_role;
+
+-- Once anonymised, a record stays anonymised even if a stale copy is saved over it
+create or replace function public.keep_interview_record_anonymised()
+returns trigger as $$
+begin
+  IF OLD.anonymised_at IS NOT NULL THEN
+    NEW.basic_info := (NEW.basic_info - array['email', 'mobile', 'birthDate', 'visaStatus', 'visaExpiryDate'])
+      || jsonb_build_object('name', OLD.basic_info->>'name');
+    NEW.resume := NULL;
+    NEW.anonymised_at := OLD.anonymised_at;
+  END IF;
+  RETURN NEW;
+end;
+$$ language plpgsql;
+
+DROP TRIGGER IF EXISTS on_interview_record_keep_anonymised ON public.interview_records;
+create trigger on_interview_record_keep_anonymised
+  before update on public.interview_records
+  for each row execute procedure public.keep_interview_record_anonymised();
+
+-- Daily schedule (requires the pg_cron extension). Resume files of scheduled purges
+-- are removed from Storage the next time an admin opens the retention report.
+-- select cron.schedule('anonymise-expired-candidates', '0 3 * * *', $$select public.anonymise_expired_candidates()$$);
+
+
+-- 12. Full-text search over candidate fields and answers
+-- Korean has no word stemming in Postgres, so matching is substring based and backed
+-- by a trigram index; the 'simple' tsvector only contributes to ranking.
+create extension if not exists pg_trgm;
+
+create or replace function public.interview_search_document(basic_info jsonb, answers jsonb)
+returns text as $$
+  select lower(concat_ws(' ',
+    basic_info->>'name', basic_info->>'position', basic_info->>'store', basic_info->>'date',
+    (select string_agg(value, ' ') from jsonb_each_text(coalesce(answers, '{}'::jsonb)))
+  ))
+$$ language sql immutable;
+
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_records' AND column_name='search_document') THEN
+    ALTER TABLE public.interview_records ADD COLUMN search_document text
+      GENERATED ALWAYS AS (public.interview_search_document(basic_info, answers)) STORED;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS interview_records_search_trgm_idx
+  ON public.interview_records USING gin (search_document gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS interview_records_search_tsv_idx
+  ON public.interview_records USING gin (to_tsvector('simple', search_document));
+
+-- About 120 characters of an answer around the first occurrence of a term
+create or replace function public.interview_search_snippet(content text, term text)
+returns text as $$
+  select case when length(content) <= 120 then content
+    else concat(
+      case when start > 1 then '…' end,
+      substr(content, start, 120),
+      case when start + 120 <= length(content) then '…' end
+    ) end
+  from (select greatest(1, strpos(lower(content), term) - 40) as start) s
+$$ language sql immutable;
+
+-- Row type of search results: every interview_records column plus the rank and the
+-- answers that matched. It inherits from interview_records so columns added to the
+-- table later reach the results too. It never holds rows and is closed to clients.
+create table if not exists public.interview_search_results (
+  search_rank real,
+  search_hits jsonb
+) inherits (public.interview_records);
+
+alter table public.interview_search_results enable row level security;
+revoke all on public.interview_search_results from public, anon, authenticated;
+
+-- Records containing every space-separated term, ranked, with the answers that matched.
+-- Runs as the caller, so RLS still limits managers to their own records. Callers chain
+-- the list's filters, ordering and range onto the result like a table. Rows are built
+-- by column name, so the definition holds as interview_records gains columns.
+DROP FUNCTION IF EXISTS public.search_interview_records(text);
+create function public.search_interview_records(search_query text)
+returns setof public.interview_search_results as $$
+  with terms as (
+    select array_agg(term) as list,
+           array_agg('%' || replace(replace(replace(term, '\', '\\'), '%', '\%'), '_', '\_') || '%') as patterns
+    from regexp_split_to_table(lower(trim(search_query)), '\s+') as term
+    where term <> ''
+  )
+  select (jsonb_populate_record(null::public.interview_search_results, to_jsonb(r) || jsonb_build_object(
+    'search_rank', ts_rank(to_tsvector('simple', r.search_document), plainto_tsquery('simple', search_query))
+      + word_similarity(lower(search_query), r.search_document),
+    'search_hits', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'questionId', a.key,
+        'snippet', public.interview_search_snippet(a.value, m.term)
+      ) order by a.key)
+      from jsonb_each_text(coalesce(r.answers, '{}'::jsonb)) as a
+      cross join lateral (
+        select term from unnest(terms.list) as term
+        where strpos(lower(a.value), term) > 0
+        limit 1
+      ) as m
+    ), '[]'::jsonb)
+  ))).*
+  from only public.interview_records r, terms
+  where terms.list is not null
+    and r.search_document ilike all (terms.patterns)
+$$ language sql stable;
+
+
+-- 13. Interview templates (question banks) edited by admins
+-- One row per interview type; stages holds the Stage[] tree the app renders.
+-- Until a type has a row, the app falls back to the question bank bundled with it.
+create table if not exists public.interview_templates (
+  id text primary key, -- interview type, e.g. 'STANDARD', 'DEPTH'
+  name text not null,
+  stages jsonb not null default '[]'::jsonb,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users(id)
+);
+
+alter table public.interview_templates enable row level security;
+
+DO $$ 
+BEGIN
+    DROP POLICY IF EXISTS "Signed-in users can read templates" ON public.interview_templates;
+    DROP POLICY IF EXISTS "Admins can manage templates" ON public.interview_templates;
+END $$;
+
+create policy "Signed-in users can read templates"
+  on public.interview_templates for select
+  using ( auth.uid() IS NOT NULL );
+
+create policy "Admins can manage templates"
+  on public.interview_templates for all
+  using (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+create or replace function public.stamp_interview_template()
+returns trigger as $$
+begin
+  NEW.updated_at := now();
+  NEW.updated_by := auth.uid();
+  return NEW;
+end;
+$$ language plpgsql;
+
+DROP TRIGGER IF EXISTS on_interview_template_save ON public.interview_templates;
+create trigger on_interview_template_save
+  before insert or update on public.interview_templates
+  for each row execute procedure public.stamp_interview_template();
+
+
+-- 14. Template versions
+-- Every save of a template inserts a new row instead of overwriting, and each
+-- interview record stores the template id and version it was conducted with.
+-- Version 0 is the question bank bundled with the app and has no row; records
+-- from before this migration (no template_version) were run with it.
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_templates' AND column_name='version') THEN
+    ALTER TABLE public.interview_templates ADD COLUMN version integer NOT NULL DEFAULT 1;
+    ALTER TABLE public.interview_templates DROP CONSTRAINT interview_templates_pkey;
+    ALTER TABLE public.interview_templates ADD PRIMARY KEY (id, version);
+    ALTER TABLE public.interview_templates ALTER COLUMN version DROP DEFAULT;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_records' AND column_name='template_id') THEN
+    ALTER TABLE public.interview_records ADD COLUMN template_id text;
+    ALTER TABLE public.interview_records ADD COLUMN template_version integer;
+  END IF;
+END $$;
+
+-- Saved versions are immutable: admins may only add new ones
+DROP POLICY IF EXISTS "Admins can manage templates" ON public.interview_templates;
+DROP POLICY IF EXISTS "Admins can add template versions" ON public.interview_templates;
+create policy "Admins can add template versions"
+  on public.interview_templates for insert
+  with check (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+
+-- 15. Structured checkpoint ratings
+-- ratings: { "<questionId>": { "<checkpoint text>": { "score": 4, "redFlag": true } } }
+-- Checkpoint text is stable because every record is pinned to a template version.
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_records' AND column_name='ratings') THEN
+    ALTER TABLE public.interview_records ADD COLUMN ratings jsonb NOT NULL DEFAULT '{}'::jsonb;
+  END IF;
+  -- e.g. { "max": 5 }; null means the app default
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_templates' AND column_name='rating_scale') THEN
+    ALTER TABLE public.interview_templates ADD COLUMN rating_scale jsonb;
+  END IF;
+END $$;
+
+-- Revisions snapshot the ratings too, so a rating change shows in the history and
+-- restoring a revision brings its ratings back. Older revisions keep ratings NULL.
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_record_revisions' AND column_name='ratings') THEN
+    ALTER TABLE public.interview_record_revisions ADD COLUMN ratings jsonb;
+  END IF;
+END $$;
+
+create or replace function public.record_interview_revision()
+returns trigger as $$
+declare
+  changed text[];
+  next_revision integer;
+begin
+  IF TG_OP = 'UPDATE'
+     AND NEW.answers IS NOT DISTINCT FROM OLD.answers
+     AND NEW.ratings IS NOT DISTINCT FROM OLD.ratings
+     AND NEW.ai_summary IS NOT DISTINCT FROM OLD.ai_summary THEN
+    RETURN NEW;
+  END IF;
+
+  -- Question ids whose note or ratings changed
+  SELECT coalesce(array_agg(key ORDER BY key), '{}')
+  INTO changed
+  FROM (
+    SELECT key
+    FROM jsonb_each(coalesce(NEW.answers, '{}'::jsonb)) n
+    FULL JOIN (
+      SELECT * FROM jsonb_each(CASE WHEN TG_OP = 'UPDATE' THEN coalesce(OLD.answers, '{}'::jsonb) ELSE '{}'::jsonb END)
+    ) o USING (key)
+    WHERE n.value IS DISTINCT FROM o.value
+    UNION
+    SELECT key
+    FROM jsonb_each(coalesce(NEW.ratings, '{}'::jsonb)) n
+    FULL JOIN (
+      SELECT * FROM jsonb_each(CASE WHEN TG_OP = 'UPDATE' THEN coalesce(OLD.ratings, '{}'::jsonb) ELSE '{}'::jsonb END)
+    ) o USING (key)
+    WHERE n.value IS DISTINCT FROM o.value
+  ) c;
+
+  SELECT coalesce(max(revision), 0) + 1
+  INTO next_revision
+  FROM public.interview_record_revisions
+  WHERE record_id = NEW.id;
+
+  INSERT INTO public.interview_record_revisions
+    (record_id, revision, author_id, author_email, changed_question_ids, answers, ratings, ai_summary)
+  VALUES
+    (NEW.id, next_revision, auth.uid(), auth.jwt() ->> 'email', changed, coalesce(NEW.answers, '{}'::jsonb),
+     coalesce(NEW.ratings, '{}'::jsonb), NEW.ai_summary);
+
+  RETURN NEW;
+end;
+$$ language plpgsql security definer;
+
+-- 16. Weighted scorecard
+-- Stage and question weights live in the template's stages; pass_thresholds holds
+-- [{ "position": "Chef", "minScore": 70 }, ...] where an empty position is the default.
+-- The app computes overall_score (0-100) and passed from the ratings with the pinned
+-- template on every save, so the list can sort on a plain column.
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_records' AND column_name='overall_score') THEN
+    ALTER TABLE public.interview_records ADD COLUMN overall_score numeric(4,1);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_records' AND column_name='passed') THEN
+    ALTER TABLE public.interview_records ADD COLUMN passed boolean;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_templates' AND column_name='pass_thresholds') THEN
+    ALTER TABLE public.interview_templates ADD COLUMN pass_thresholds jsonb;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS interview_records_overall_score_idx ON public.interview_records (overall_score DESC NULLS LAST);
+
+-- 17. Position-aware templates
+-- positions: ["Sushi Chef", "Cook", ...] the template is meant for (null = every position).
+-- Sections inside stages carry their own "positions" list the same way.
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_templates' AND column_name='positions') THEN
+    ALTER TABLE public.interview_templates ADD COLUMN positions jsonb;
+  END IF;
+END $$;
+
+-- 18. Multilingual question banks
+-- translations: { "en": { "<Korean text>": "<English text>" }, "ja": { ... } } covering
+-- question texts, checkpoints and notices. language records which one the interview used.
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_templates' AND column_name='translations') THEN
+    ALTER TABLE public.interview_templates ADD COLUMN translations jsonb;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_records' AND column_name='language') THEN
+    ALTER TABLE public.interview_records ADD COLUMN language text CHECK (language IN ('ko', 'en', 'ja'));
+  END IF;
+END $$;
+
+-- 19. Draft and completed records
+-- Records are drafts until finalised. Finalising requires every required question and
+-- consent unless a reason is given, which is kept in completion_override.
+-- Records saved before this existed were finished interviews and are backfilled as completed.
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_records' AND column_name='status') THEN
+    ALTER TABLE public.interview_records ADD COLUMN status text;
+    UPDATE public.interview_records SET status = 'completed' WHERE status IS NULL;
+    ALTER TABLE public.interview_records ALTER COLUMN status SET DEFAULT 'draft';
+    ALTER TABLE public.interview_records ALTER COLUMN status SET NOT NULL;
+    ALTER TABLE public.interview_records ADD CONSTRAINT interview_records_status_check CHECK (status IN ('draft', 'completed'));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_records' AND column_name='completed_at') THEN
+    ALTER TABLE public.interview_records ADD COLUMN completed_at timestamptz;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_records' AND column_name='completion_override') THEN
+    ALTER TABLE public.interview_records ADD COLUMN completion_override text;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS interview_records_status_idx ON public.interview_records (status);
+
+-- 20. Structured AI evaluation
+-- ai_evaluation: { "recommendation": "추천" | "보류" | "비추천", "confidence": 0-100,
+--   "strengths": [...], "concerns": [...], "culturalFit": "...",
+--   "evidence": [{ "questionId": "q2_2", "quote": "..." }] }
+-- ai_summary keeps a plain-text rendering of it for search, revisions and export.
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_records' AND column_name='ai_evaluation') THEN
+    ALTER TABLE public.interview_records ADD COLUMN ai_evaluation jsonb;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS interview_records_ai_recommendation_idx ON public.interview_records ((ai_evaluation->>'recommendation'));
+
+-- 21. Candidate profile extracted from the resume
+-- candidate_profile: { "workHistory": [{ "employer": "...", "role": "...", "period": "...",
+--   "description": "..." }], "sourceFileName": "...", "extractedAt": 1700000000000 }
+-- Work history is candidate PII, so the retention job now clears it with the resume.
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='interview_records' AND column_name='candidate_profile') THEN
+    ALTER TABLE public.interview_records ADD COLUMN candidate_profile jsonb;
+  END IF;
+END $$;
+
+create or replace function public.anonymise_expired_candidates()
+returns setof public.pii_purge_log as $$
+declare
+  pii_fields text[] := array['email', 'mobile', 'birthDate', 'visaStatus', 'visaExpiryDate'];
+  expired record;
+  log_row public.pii_purge_log;
+begin
+  -- Runs without a user only from pg_cron (connected as postgres) or with the
+  -- service role key; interactive runs are admin-only
+  IF auth.uid() IS NULL THEN
+    IF coalesce(auth.role(), '') <> 'service_role' AND session_user <> 'postgres' THEN
+      RAISE EXCEPTION 'Only admins can run the retention job';
+    END IF;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can run the retention job';
+  END IF;
+
+  FOR expired IN
+    SELECT ir.id, ir.outcome, ir.resume, p.retain_months
+    FROM public.interview_records ir
+    JOIN public.retention_policies p ON p.outcome = ir.outcome
+    WHERE p.retain_months IS NOT NULL
+      AND ir.anonymised_at IS NULL
+      AND (CASE WHEN ir.basic_info->>'date' ~ '^\d{4}-\d{2}-\d{2}$'
+                THEN (ir.basic_info->>'date')::date
+                ELSE ir.created_at::date END) < current_date - make_interval(months => p.retain_months)
+  LOOP
+    UPDATE public.interview_records
+    SET basic_info = (basic_info - pii_fields) || jsonb_build_object('name', '익명 지원자'),
+        resume = NULL,
+        candidate_profile = NULL,
+        anonymised_at = now()
+    WHERE id = expired.id;
+
+    INSERT INTO public.pii_purge_log (record_id, outcome, retain_months, purged_fields, resume_path)
+    VALUES (expired.id, expired.outcome, expired.retain_months, pii_fields || array['name', 'candidateProfile'], expired.resume->>'storagePath')
+    RETURNING * INTO log_row;
+
+    RETURN NEXT log_row;
+  END LOOP;
+end;
+$$ language plpgsql security definer;
+
+create or replace function public.keep_interview_record_anonymised()
+returns trigger as $$
+begin
+  IF OLD.anonymised_at IS NOT NULL THEN
+    NEW.basic_info := (NEW.basic_info - array['email', 'mobile', 'birthDate', 'visaStatus', 'visaExpiryDate'])
+      || jsonb_build_object('name', OLD.basic_info->>'name');
+    NEW.resume := NULL;
+    NEW.candidate_profile := NULL;
+    NEW.anonymised_at := OLD.anonymised_at;
+  END IF;
+  RETURN NEW;
+end;
+$$ language plpgsql;
@@ -1,7 +1,22 @@
+// Scripted probe for when the answer to its question is vague. Its note is
+// stored in record.answers under getFollowUpAnswerKey(id).
+export interface FollowUp {
+  id: string;
+  text: string;
+}
+
+// Retired items stay in the template so older answers keep their question text,
+// but are no longer offered in new interviews.
 export interface Question {
   id: string;
   text: string;
   checkpoints: string[];
+  followUps?: FollowUp[];
+  goodSigns?: string[]; // What a strong answer sounds like
+  badSigns?: string[]; // What a weak or worrying answer sounds like
+  required?: boolean; // Must have a note or a rating before the interview is finalised
+  weight?: number; // Share of its stage score; 1 when unset, 0 leaves it out
+  retired?: boolean;
 }
 
 export interface Section {
@@ -10,7 +25,9 @@ export interface Section {
   questions?: Question[];
   condition?: string;
   notices?: string[];
-  requireConsent?: boolean;
+  requireConsent?: boolean; // The final consent must be ticked before the interview is finalised
+  positions?: string[]; // Only offered to candidates for these positions; unset for every position
+  retired?: boolean;
 }
 
 export interface Stage {
@@ -19,6 +36,53 @@ export interface Stage {
   sections: Section[];
   description?: string;
   type?: 'question' | 'notice';
+  weight?: number; // Share of the overall score; 1 when unset, 0 leaves it out
+  showWorkHistory?: boolean; // Shows the work history taken from the resume above the questions
+  retired?: boolean;
+}
+
+// Id of an entry in INTERVIEW_TYPES (services/interviewTypes.ts)
+export type InterviewType = string;
+
+// Checkpoints are rated from 1 to max
+export interface RatingScale {
+  max: number;
+}
+
+export interface CheckpointRating {
+  score?: number;
+  redFlag?: boolean;
+}
+
+// checkpoint text -> rating. Records are pinned to a template version, so the text is stable.
+export type QuestionRatings = Record<string, CheckpointRating>;
+
+// Minimum overall score (0-100) to pass. An empty position applies to every
+// position without a threshold of its own.
+export interface PassThreshold {
+  position: string;
+  minScore: number;
+}
+
+export type InterviewLanguage = 'ko' | 'en' | 'ja';
+
+// Korean source text -> translated text, per language. Keyed by the text so a
+// translation follows its question when reordered, and an edited question shows
+// Korean again until it is re-translated.
+export type TemplateTranslations = Partial<Record<InterviewLanguage, Record<string, string>>>;
+
+// Question bank for one interview type, editable by admins. Every save is a
+// new immutable version; version 0 is the bank bundled with the app.
+export interface InterviewTemplate {
+  id: InterviewType;
+  version: number;
+  name: string;
+  stages: Stage[];
+  positions?: string[]; // Positions the template is meant for; unset for every position
+  ratingScale?: RatingScale;
+  passThresholds?: PassThreshold[];
+  translations?: TemplateTranslations;
+  updatedAt?: number;
 }
 
 export interface BasicInfo {
@@ -33,19 +97,176 @@ export interface BasicInfo {
   email?: string;
   mobile?: string;
   birthDate?: string;
-  interviewType?: 'STANDARD' | 'DEPTH';
+  interviewType?: InterviewType;
+}
+
+// Records are drafts until finalised with 작성 완료. Records from before this
+// status existed count as completed.
+export type RecordStatus = 'draft' | 'completed';
+
+export type CandidateOutcome = 'pending' | 'hired' | 'rejected' | 'withdrawn';
+
+// Resume stored in the private Supabase Storage bucket
+export interface ResumeAttachment {
+  fileName: string;
+  storagePath: string;
+  size: number;
+  mimeType: string;
+  uploadedAt: number;
+}
+
+// Resume embedded in the row before attachments moved to Storage
+export interface LegacyResume {
+  fileName: string;
+  fileData: string; // Base64 data url
+}
+
+// One job from the candidate's resume, as extracted and confirmed by the interviewer
+export interface WorkHistoryEntry {
+  employer: string;
+  role: string;
+  period: string; // As written on the resume, e.g. "2022.03 - 2023.08"
+  description?: string;
+}
+
+// Structured details taken from the resume, shown next to the career questions
+export interface CandidateProfile {
+  workHistory: WorkHistoryEntry[];
+  sourceFileName: string; // Resume the profile was extracted from
+  extractedAt: number;
+}
+
+export type AiRecommendation = '추천' | '보류' | '비추천';
+
+// A note the evaluation relies on, quoted from the answer to questionId
+export interface AiEvidence {
+  questionId: string;
+  quote: string;
+}
+
+// Structured AI evaluation, returned by the model against a response schema
+export interface AiEvaluation {
+  recommendation: AiRecommendation;
+  confidence: number; // 0-100, how sure the model is of the recommendation
+  strengths: string[];
+  concerns: string[];
+  culturalFit: string;
+  evidence: AiEvidence[];
 }
 
 export interface InterviewRecord {
   id: string;
+  ownerId?: string; // User the record belongs to (user_id); unset until first synced
   basicInfo: BasicInfo;
   answers: Record<string, string>; // questionId -> memo/evaluation
-  resume?: {
-    fileName: string;
-    fileData: string; // Base64 data url
-  };
+  ratings?: Record<string, QuestionRatings>; // questionId -> checkpoint ratings
+  // Weighted score (0-100) from the ratings and whether it met the position's
+  // threshold, both computed with the pinned template on save
+  overallScore?: number;
+  passed?: boolean;
+  resume?: ResumeAttachment | LegacyResume;
+  candidateProfile?: CandidateProfile;
+  // Plain-text rendering of aiEvaluation, kept for search, revisions and export.
+  // Records analysed before structured evaluations only have this markdown.
   aiSummary?: string;
+  aiEvaluation?: AiEvaluation;
+  outcome?: CandidateOutcome;
+  anonymisedAt?: number; // Set by the retention job once PII has been scrubbed
+  // Template the interview was run with; records from before versioning have neither
+  templateId?: InterviewTemplate['id'];
+  templateVersion?: number;
+  language?: InterviewLanguage; // Language the questions were asked in; Korean when unset
+  status?: RecordStatus;
+  completedAt?: number;
+  completionOverride?: string; // Why the interview was finalised with required items missing
   createdAt: number;
+  // Server version this copy was loaded from or last saved as. Absent until first saved.
+  version?: number;
+  updatedAt?: number;
+}
+
+// Both sides of a save that lost the optimistic concurrency check
+export interface RecordConflict {
+  mine: InterviewRecord;
+  theirs: InterviewRecord;
+}
+
+// How long candidate PII is kept after the interview, per outcome (null = keep)
+export interface RetentionPolicy {
+  outcome: CandidateOutcome;
+  retainMonths: number | null;
 }
 
-export type ViewState = 'LIST' | 'FORM' | 'DETAIL';
\ No newline at end of file
+// One anonymised record, as reported to admins
+export interface PurgeLogEntry {
+  id: string;
+  recordId: string;
+  outcome: CandidateOutcome;
+  retainMonths: number;
+  purgedFields: string[];
+  resumePath?: string;
+  resumeDeletedAt?: number;
+  purgedAt: number;
+}
+
+// 'relevance' ranks search matches and falls back to 'created' without a search.
+// 'score' lists unscored records last in either direction.
+export type RecordSortKey = 'date' | 'name' | 'created' | 'relevance' | 'score';
+
+export interface RecordFilters {
+  search?: string; // Space-separated keywords; every keyword must match
+  store?: string;
+  position?: string;
+  interviewType?: InterviewType;
+  interviewer?: string;
+  status?: RecordStatus;
+  aiRecommendation?: AiRecommendation;
+  dateFrom?: string; // YYYY-MM-DD, inclusive
+  dateTo?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface RecordQuery {
+  filters?: RecordFilters;
+  sortBy?: RecordSortKey;
+  sortDirection?: 'asc' | 'desc';
+  offset?: number;
+  limit?: number;
+}
+
+// An answer that matched the search, with the text around the match
+export interface SearchHit {
+  questionId: string;
+  snippet: string;
+}
+
+export interface RecordPage {
+  records: InterviewRecord[];
+  total: number;
+  nextOffset: number | null; // null when there are no more pages
+  hits?: Record<string, SearchHit[]>; // by record id, only when searching
+}
+
+// Immutable snapshot written on every save that changes answers or the AI summary
+export interface RecordRevision {
+  id: string;
+  recordId: string;
+  revision: number;
+  author: string;
+  createdAt: number;
+  changedQuestionIds: string[];
+  answers: Record<string, string>;
+  ratings?: Record<string, QuestionRatings>; // Absent on revisions saved before ratings were kept
+  aiSummary?: string;
+}
+
+export type SyncStatus = 'pending' | 'synced' | 'failed' | 'conflict';
+
+export interface SaveResult {
+  status: SyncStatus;
+  version?: number; // New server version, when the save reached the server
+  resume?: ResumeAttachment; // Set when the save moved an embedded resume to Storage
+}
+
+export type SyncStatusMap = Record<string, SyncStatus>; // recordId -> status
+
+export type ViewState = 'LIST' | 'FORM' | 'DETAIL' | 'RETENTION' | 'TEMPLATES';
\ No newline at end of file